@@ -15,6 +15,4 @@ export const TodoServiceEventSchema = z.discriminatedUnion("type", [
   }),
 ]);
 
-export const TodoInputPropsSchema = z.object({
-  foo: z.string(),
-});
+export const TodoInputPropsSchema = z.object({});
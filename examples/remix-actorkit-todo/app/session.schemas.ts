@@ -11,6 +11,4 @@ export const SessionServiceEventSchema = z.discriminatedUnion("type", [
   }),
 ]);
 
-export const SessionInputPropsSchema = z.object({
-  foo: z.string(),
-});
+export const SessionInputPropsSchema = z.object({});
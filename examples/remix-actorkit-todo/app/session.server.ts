@@ -15,6 +15,7 @@ export const Session = createMachineServer({
   },
   options: {
     persisted: true,
+    idleTimeout: 30 * 24 * 60 * 60 * 1000, // 30 days
   },
 });
 
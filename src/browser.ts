@@ -1 +1,5 @@
-export { createActorKitClient } from "./createActorKitClient";
+export {
+  ActorKitEventError,
+  createActorKitClient,
+} from "./createActorKitClient";
+export { createLogger } from "./createLogger";
@@ -19,3 +19,32 @@ export const CallerTypes: Record<CallerType, CallerType> = {
 };
 
 export const PERSISTED_SNAPSHOT_KEY = "persistedSnapshot";
+export const PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY = "persistedSnapshotChunkCount";
+export const PERSISTED_SNAPSHOT_CHUNK_KEY_PREFIX = "persistedSnapshotChunk:";
+export const PERSISTED_SNAPSHOT_PATCH_KEY_PREFIX = "persistedSnapshotPatch:";
+export const PERSISTED_SNAPSHOT_VERSION_KEY = "persistedSnapshotVersion";
+export const QUARANTINED_SNAPSHOT_KEY_PREFIX = "quarantinedSnapshot:";
+
+// Prefix of stored values encrypted with the `encryption` option
+export const ENCRYPTED_VALUE_PREFIX = "aes-gcm:";
+export const SCHEDULED_EVENT_KEY_PREFIX = "scheduledEvent:";
+export const EVENT_LOG_KEY_PREFIX = "eventLog:";
+export const EVENT_LOG_LENGTH_KEY = "eventLogLength";
+export const ACTOR_SUBSCRIBER_KEY_PREFIX = "actorSubscriber:";
+export const PENDING_DISCONNECT_KEY_PREFIX = "pendingDisconnect:";
+export const DESTROY_AT_KEY = "destroyAt";
+export const LAST_ACTIVITY_KEY = "lastActivity";
+
+// WebSocket close code sent to clients when their actor is destroyed
+export const ACTOR_DESTROYED_CLOSE_CODE = 4000;
+
+// Reported by actors that haven't been spawned, or were destroyed since
+export const ACTOR_NOT_SPAWNED_MESSAGE = "Actor has not been spawned";
+export const ACTOR_NOT_SPAWNED_STATUS = 404;
+
+export const DEFAULT_DISCONNECT_GRACE_PERIOD = 5000;
+// How long before a request `waitForEvent` still matches handled events
+export const DEFAULT_WAIT_FOR_EVENT_LOOKBACK = 2000;
+export const DEFAULT_PERSISTENCE_COMPACT_AFTER_PATCHES = 20;
+export const DEFAULT_PERSISTENCE_MAX_CHUNK_SIZE = 60000;
+export const DEFAULT_MAX_VIOLATIONS = 10;
@@ -9,16 +9,19 @@ export const createAccessToken = async ({
   actorType,
   callerId,
   callerType,
+  groups,
 }: {
   signingKey: string;
   actorId: string;
   actorType: string;
   callerId: string;
   callerType: CallerType;
+  /** Groups the caller belongs to, e.g. roles like "moderator". */
+  groups?: string[];
 }) => {
   const subject = `${callerType}-${callerId}`;
   CallerStringSchema.parse(subject);
-  const token = await new SignJWT({})
+  const token = await new SignJWT(groups ? { groups } : {})
     .setProtectedHeader({ alg: "HS256" })
     .setJti(actorId)
     .setSubject(subject)
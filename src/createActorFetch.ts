@@ -1,13 +1,20 @@
 import { StateValueFrom } from "xstate";
 import { z } from "zod";
-import { AnyActorKitStateMachine, CallerSnapshotFrom, ClientEventFrom } from "./types";
+import {
+  AnyActorKitStateMachine,
+  CallerSnapshotFrom,
+  EventMatcherFrom,
+} from "./types";
 
 const ResponseSchema = z.object({
   snapshot: z.record(z.any()),
   checksum: z.string(),
 });
 
-export function createActorFetch<TMachine extends AnyActorKitStateMachine>({
+export function createActorFetch<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+>({
   actorType,
   host,
 }: {
@@ -19,14 +26,15 @@ export function createActorFetch<TMachine extends AnyActorKitStateMachine>({
       actorId: string;
       accessToken: string;
       input?: Record<string, unknown>;
-      waitForEvent?: ClientEventFrom<TMachine>;
+      waitForEvent?: EventMatcherFrom<TMachine>;
       waitForState?: StateValueFrom<TMachine>;
+      since?: number;
       timeout?: number;
       errorOnWaitTimeout?: boolean;
     },
     options?: RequestInit
   ): Promise<{
-    snapshot: CallerSnapshotFrom<TMachine>;
+    snapshot: CallerSnapshotFrom<TMachine, TCallerSnapshot>;
     checksum: string;
   }> {
     const input = props.input ?? {};
@@ -54,6 +62,11 @@ export function createActorFetch<TMachine extends AnyActorKitStateMachine>({
       );
     }
 
+    // Add since to URL parameters if specified
+    if (props.since !== undefined) {
+      url.searchParams.append("since", props.since.toString());
+    }
+
     // Add timeout to URL parameters if specified
     if (props.timeout) {
       url.searchParams.append("timeout", props.timeout.toString());
@@ -88,7 +101,7 @@ export function createActorFetch<TMachine extends AnyActorKitStateMachine>({
     const { checksum, snapshot } = ResponseSchema.parse(data);
 
     return {
-      snapshot: snapshot as CallerSnapshotFrom<TMachine>,
+      snapshot: snapshot as CallerSnapshotFrom<TMachine, TCallerSnapshot>,
       checksum,
     };
   };
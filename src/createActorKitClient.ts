@@ -1,40 +1,103 @@
 import { applyPatch } from "fast-json-patch";
 import { produce } from "immer";
 
+import { ACTOR_DESTROYED_CLOSE_CODE } from "./constants";
+import { createChecksum } from "./createChecksum";
+import { createLogger } from "./createLogger";
 import {
   ActorKitClient,
   ActorKitEmittedEvent,
+  ActorKitEventResult,
   AnyActorKitStateMachine,
   CallerSnapshotFrom,
   ClientEventFrom,
+  LogFields,
+  Logger,
+  LogLevel,
 } from "./types";
 
-export type ActorKitClientProps<TMachine extends AnyActorKitStateMachine> = {
+export type ActorKitClientProps<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> = {
   host: string;
   actorType: string;
   actorId: string;
   checksum: string;
   accessToken: string;
-  initialSnapshot: CallerSnapshotFrom<TMachine>;
-  onStateChange?: (newState: CallerSnapshotFrom<TMachine>) => void;
+  initialSnapshot: CallerSnapshotFrom<TMachine, TCallerSnapshot>;
+  onStateChange?: (
+    newState: CallerSnapshotFrom<TMachine, TCallerSnapshot>
+  ) => void;
   onError?: (error: Error) => void;
+  /** Called once the actor's machine has reached a final state. */
+  onDone?: () => void;
+  /** Receives the client's logs. Defaults to `createLogger()`. */
+  logger?: Logger;
 };
 
 type Listener<T> = (state: T) => void;
 
+type ErrorFrame = Extract<ActorKitEmittedEvent, { type: "error" }>;
+
+// Event ids only need to be unique per socket. A counter also works on pages
+// served over plain HTTP, where crypto.randomUUID isn't available.
+let nextEventId = 0;
+
+/**
+ * Error for an event the server rejected, e.g. because it failed validation.
+ */
+export class ActorKitEventError extends Error {
+  code: ErrorFrame["code"];
+  eventType?: string;
+  issues?: ErrorFrame["issues"];
+
+  constructor({ code, message, eventType, issues }: Omit<ErrorFrame, "type">) {
+    super(message);
+    this.name = "ActorKitEventError";
+    this.code = code;
+    this.eventType = eventType;
+    this.issues = issues;
+  }
+}
+
 /**
  * Creates an Actor Kit client for managing state and communication with the server.
  *
  * @template TMachine - The type of the state machine.
- * @param {ActorKitClientProps<TMachine>} props - Configuration options for the client.
- * @returns {ActorKitClient<TMachine>} An object with methods to interact with the actor.
+ * @template TCallerSnapshot - The return type of the actor's `toCallerSnapshot` projection, if it has one.
+ * @param {ActorKitClientProps<TMachine, TCallerSnapshot>} props - Configuration options for the client.
+ * @returns {ActorKitClient<TMachine, TCallerSnapshot>} An object with methods to interact with the actor.
  */
-export function createActorKitClient<TMachine extends AnyActorKitStateMachine>(
-  props: ActorKitClientProps<TMachine>
-): ActorKitClient<TMachine> {
+export function createActorKitClient<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+>(
+  props: ActorKitClientProps<TMachine, TCallerSnapshot>
+): ActorKitClient<TMachine, TCallerSnapshot> {
+  const logger = props.logger ?? createLogger();
+  const log = (level: LogLevel, message: string, fields?: LogFields) =>
+    logger[level](message, {
+      actorType: props.actorType,
+      actorId: props.actorId,
+      ...fields,
+    });
   let currentSnapshot = props.initialSnapshot;
+  // Checksum of the server snapshot the client state is based on
+  let checksum: string | undefined = props.checksum;
   let socket: WebSocket | null = null;
-  const listeners: Set<Listener<CallerSnapshotFrom<TMachine>>> = new Set();
+  const listeners: Set<
+    Listener<CallerSnapshotFrom<TMachine, TCallerSnapshot>>
+  > = new Set();
+  // Sent events waiting for the server's ack or error, by event id
+  const pendingEvents = new Map<
+    string,
+    {
+      socket: WebSocket;
+      resolve: (result: ActorKitEventResult) => void;
+      reject: (error: Error) => void;
+    }
+  >();
   let reconnectAttempts = 0;
   const maxReconnectAttempts = 5;
 
@@ -50,64 +113,152 @@ export function createActorKitClient<TMachine extends AnyActorKitStateMachine>(
    * @returns {Promise<void>} A promise that resolves when the connection is established.
    */
   const connect = async () => {
-    const url = getWebSocketUrl(props);
+    const url = getWebSocketUrl(props, checksum);
 
-    socket = new WebSocket(url);
+    const ws = new WebSocket(url);
+    socket = ws;
 
-    socket.addEventListener("open", () => {
+    ws.addEventListener("open", () => {
       reconnectAttempts = 0;
     });
 
-    socket.addEventListener("message", (event: MessageEvent) => {
+    ws.addEventListener("message", (event: MessageEvent) => {
+      // Ignore messages from a socket replaced by a resync
+      if (socket !== ws) {
+        return;
+      }
+
       try {
         const data = JSON.parse(
           typeof event.data === "string"
             ? event.data
             : new TextDecoder().decode(event.data)
-        ) as ActorKitEmittedEvent;
+        ) as ActorKitEmittedEvent<TMachine, TCallerSnapshot>;
+
+        if (data.type === "ack") {
+          pendingEvents.get(data.id)?.resolve({
+            checksum: data.checksum,
+            transitioned: data.transitioned,
+          });
+          pendingEvents.delete(data.id);
+          return;
+        }
+        if (data.type === "error") {
+          const error = new ActorKitEventError(data);
+          if (data.id) {
+            pendingEvents.get(data.id)?.reject(error);
+            pendingEvents.delete(data.id);
+          }
+          props.onError?.(error);
+          return;
+        }
+        if (data.type === "done") {
+          props.onDone?.();
+          return;
+        }
 
-        currentSnapshot = produce(currentSnapshot, (draft) => {
-          applyPatch(draft, data.operations);
-        });
+        if (data.type === "snapshot") {
+          currentSnapshot = data.snapshot;
+        } else {
+          currentSnapshot = produce(currentSnapshot, (draft) => {
+            applyPatch(draft, data.operations);
+          });
+        }
+        checksum = data.checksum;
 
         props.onStateChange?.(currentSnapshot);
         notifyListeners();
+
+        verifySnapshot(currentSnapshot, data.callerChecksum);
       } catch (error) {
-        console.error(`[ActorKitClient] Error processing message:`, error);
+        log("error", "Error processing message", { error });
         props.onError?.(error as Error);
       }
     });
 
-    socket.addEventListener("error", (error: any) => {
-      console.error(`[ActorKitClient] WebSocket error:`, error);
-      console.error(`[ActorKitClient] Error details:`, {
-        message: error.message,
-        type: error.type,
-        target: error.target,
-        eventPhase: error.eventPhase,
-      });
+    ws.addEventListener("error", (error: any) => {
+      log("error", "WebSocket error", { error });
       props.onError?.(new Error(`WebSocket error: ${JSON.stringify(error)}`));
     });
 
     // todo, how do we reconnect when a user returns to the tab
     // later after it's disconnected
 
-    socket.addEventListener("close", (event) => {
+    ws.addEventListener("close", (event) => {
+      pendingEvents.forEach((pending, id) => {
+        if (pending.socket === ws) {
+          const error = new Error(
+            "WebSocket closed before the event was acknowledged"
+          );
+          pending.reject(error);
+          pendingEvents.delete(id);
+          props.onError?.(error);
+        }
+      });
+
+      // Sockets closed by disconnect or replaced by a resync stay closed
+      if (socket !== ws) {
+        return;
+      }
+
+      if (event.code === ACTOR_DESTROYED_CLOSE_CODE) {
+        socket = null;
+        props.onError?.(new Error(`Actor destroyed: ${event.reason}`));
+        return;
+      }
+
       // Implement reconnection logic
       if (reconnectAttempts < maxReconnectAttempts) {
         reconnectAttempts++;
         const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
         setTimeout(connect, delay);
       } else {
-        console.error(`[ActorKitClient] Max reconnection attempts reached`);
+        log("error", "Max reconnection attempts reached");
       }
     });
 
     return new Promise<void>((resolve) => {
-      socket!.addEventListener("open", () => resolve());
+      ws.addEventListener("open", () => resolve());
     });
   };
 
+  /**
+   * Compares the client snapshot against the server's checksum for it and
+   * requests a full resync when they differ.
+   */
+  const verifySnapshot = async (
+    snapshot: CallerSnapshotFrom<TMachine, TCallerSnapshot>,
+    expectedChecksum: string
+  ) => {
+    // Browsers only provide crypto.subtle in secure contexts, so pages
+    // served over plain HTTP, e.g. on a LAN, go without verification
+    if (typeof crypto === "undefined" || !crypto.subtle) {
+      return;
+    }
+    try {
+      const actualChecksum = await createChecksum(snapshot);
+      // Newer updates are verified on their own
+      if (actualChecksum !== expectedChecksum && snapshot === currentSnapshot) {
+        log("warn", "Snapshot out of sync, resyncing");
+        resync();
+      }
+    } catch (error) {
+      log("error", "Error verifying snapshot", { error });
+      props.onError?.(error as Error);
+    }
+  };
+
+  /**
+   * Reconnects without a checksum so the server sends the full snapshot.
+   */
+  const resync = () => {
+    checksum = undefined;
+    const previousSocket = socket;
+    socket = null;
+    previousSocket?.close();
+    connect();
+  };
+
   /**
    * Closes the WebSocket connection to the Actor Kit server.
    */
@@ -119,31 +270,45 @@ export function createActorKitClient<TMachine extends AnyActorKitStateMachine>(
   };
 
   /**
-   * Sends an event to the Actor Kit server.
+   * Sends an event to the Actor Kit server. Failures are also passed to
+   * `onError`, so callers that don't await the result can ignore it.
    * @param {ClientEventFrom<TMachine>} event - The event to send.
+   * @returns {Promise<ActorKitEventResult>} Resolves once the server has handled the event, with whether it caused a transition and the resulting checksum. Rejects with an `ActorKitEventError` if the server rejects it.
    */
   const send = (event: ClientEventFrom<TMachine>) => {
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify(event));
+    let result: Promise<ActorKitEventResult>;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      const error = new Error("Cannot send event: WebSocket is not connected");
+      props.onError?.(error);
+      result = Promise.reject(error);
     } else {
-      props.onError?.(
-        new Error("Cannot send event: WebSocket is not connected")
-      );
+      const id = String(nextEventId++);
+      const ws = socket;
+      result = new Promise<ActorKitEventResult>((resolve, reject) => {
+        pendingEvents.set(id, { socket: ws, resolve, reject });
+        ws.send(JSON.stringify({ id, event }));
+      });
     }
+    // Failures already went to onError, so an unawaited send must not
+    // become an unhandled rejection
+    result.catch(() => {});
+    return result;
   };
 
   /**
    * Retrieves the current state of the actor.
-   * @returns {CallerSnapshotFrom<TMachine>} The current state.
+   * @returns {CallerSnapshotFrom<TMachine, TCallerSnapshot>} The current state.
    */
   const getState = () => currentSnapshot;
 
   /**
    * Subscribes a listener to state changes.
-   * @param {Listener<CallerSnapshotFrom<TMachine>>} listener - The listener function to be called on state changes.
+   * @param {Listener<CallerSnapshotFrom<TMachine, TCallerSnapshot>>} listener - The listener function to be called on state changes.
    * @returns {() => void} A function to unsubscribe the listener.
    */
-  const subscribe = (listener: Listener<CallerSnapshotFrom<TMachine>>) => {
+  const subscribe = (
+    listener: Listener<CallerSnapshotFrom<TMachine, TCallerSnapshot>>
+  ) => {
     listeners.add(listener);
     return () => {
       listeners.delete(listener);
@@ -152,12 +317,14 @@ export function createActorKitClient<TMachine extends AnyActorKitStateMachine>(
 
   /**
    * Waits for a state condition to be met.
-   * @param {(state: CallerSnapshotFrom<TMachine>) => boolean} predicateFn - Function that returns true when condition is met
+   * @param {(state: CallerSnapshotFrom<TMachine, TCallerSnapshot>) => boolean} predicateFn - Function that returns true when condition is met
    * @param {number} [timeoutMs=5000] - Maximum time to wait in milliseconds
    * @returns {Promise<void>} Resolves when condition is met, rejects on timeout
    */
   const waitFor = async (
-    predicateFn: (state: CallerSnapshotFrom<TMachine>) => boolean,
+    predicateFn: (
+      state: CallerSnapshotFrom<TMachine, TCallerSnapshot>
+    ) => boolean,
     timeoutMs: number = 5000
   ): Promise<void> => {
     // Check if condition is already met
@@ -200,8 +367,11 @@ export function createActorKitClient<TMachine extends AnyActorKitStateMachine>(
   };
 }
 
-function getWebSocketUrl(props: ActorKitClientProps<any>): string {
-  const { host, actorId, actorType, accessToken, checksum } = props;
+function getWebSocketUrl(
+  props: ActorKitClientProps<any, any>,
+  checksum: string | undefined
+): string {
+  const { host, actorId, actorType, accessToken } = props;
 
   // Determine protocol (ws or wss)
   const protocol =
@@ -22,14 +22,15 @@ import type {
   MatchesProps,
 } from "./types";
 
-export function createActorKitContext<TMachine extends AnyActorKitStateMachine>(
-  actorType: string
-) {
-  const ActorKitContext = createContext<ActorKitClient<TMachine> | null>(null);
+export function createActorKitContext<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+>(actorType: string) {
+  const ActorKitContext = createContext<ActorKitClient<TMachine, TCallerSnapshot> | null>(null);
 
   const ProviderFromClient: React.FC<{
     children: ReactNode;
-    client: ActorKitClient<TMachine>;
+    client: ActorKitClient<TMachine, TCallerSnapshot>;
   }> = ({ children, client }) => {
     return (
       <ActorKitContext.Provider value={client}>
@@ -41,16 +42,17 @@ export function createActorKitContext<TMachine extends AnyActorKitStateMachine>(
   const Provider: React.FC<
     {
       children: ReactNode;
-    } & Omit<ActorKitClientProps<TMachine>, "actorType">
+    } & Omit<ActorKitClientProps<TMachine, TCallerSnapshot>, "actorType">
   > = memo((props) => {
     const clientRef = useRef(
-      createActorKitClient<TMachine>({
+      createActorKitClient<TMachine, TCallerSnapshot>({
         host: props.host,
         actorId: props.actorId,
         accessToken: props.accessToken,
         checksum: props.checksum,
         initialSnapshot: props.initialSnapshot,
         actorType,
+        logger: props.logger,
       })
     );
     const initializedRef = useRef(false);
@@ -69,7 +71,7 @@ export function createActorKitContext<TMachine extends AnyActorKitStateMachine>(
     );
   });
 
-  function useClient(): ActorKitClient<TMachine> {
+  function useClient(): ActorKitClient<TMachine, TCallerSnapshot> {
     const client = useContext(ActorKitContext);
     if (!client) {
       throw new Error(
@@ -80,7 +82,7 @@ export function createActorKitContext<TMachine extends AnyActorKitStateMachine>(
   }
 
   const useSelector = <T,>(
-    selector: (snapshot: CallerSnapshotFrom<TMachine>) => T
+    selector: (snapshot: CallerSnapshotFrom<TMachine, TCallerSnapshot>) => T
   ) => {
     const client = useClient();
 
@@ -99,7 +101,9 @@ export function createActorKitContext<TMachine extends AnyActorKitStateMachine>(
   }
 
   function useMatches(stateValue: StateValueFrom<TMachine>): boolean {
-    return useSelector((state) => matchesState(stateValue, state.value as any));
+    return useSelector((state) =>
+      matchesState(stateValue, (state as { value?: unknown }).value as any)
+    );
   }
 
   const Matches: React.FC<MatchesProps<TMachine> & { children: ReactNode }> & {
@@ -1,32 +1,43 @@
 import { Draft, produce } from "immer";
 import {
   ActorKitClient,
+  ActorKitEventResult,
   AnyActorKitStateMachine,
   CallerSnapshotFrom,
   ClientEventFrom,
 } from "./types";
 
-export type ActorKitMockClientProps<TMachine extends AnyActorKitStateMachine> = {
-  initialSnapshot: CallerSnapshotFrom<TMachine>;
+export type ActorKitMockClientProps<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> = {
+  initialSnapshot: CallerSnapshotFrom<TMachine, TCallerSnapshot>;
   onSend?: (event: ClientEventFrom<TMachine>) => void;
 };
 
-export type ActorKitMockClient<TMachine extends AnyActorKitStateMachine> = ActorKitClient<TMachine> & {
-  produce: (recipe: (draft: Draft<CallerSnapshotFrom<TMachine>>) => void) => void;
+export type ActorKitMockClient<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> = ActorKitClient<TMachine, TCallerSnapshot> & {
+  produce: (recipe: (draft: Draft<CallerSnapshotFrom<TMachine, TCallerSnapshot>>) => void) => void;
 };
 
 /**
  * Creates a mock Actor Kit client for testing purposes.
  *
  * @template TMachine - The type of the state machine.
- * @param {ActorKitMockClientProps<TMachine>} props - Configuration options for the mock client.
- * @returns {ActorKitMockClient<TMachine>} An object with methods to interact with the mock actor.
+ * @template TCallerSnapshot - The return type of the actor's `toCallerSnapshot` projection, if it has one.
+ * @param {ActorKitMockClientProps<TMachine, TCallerSnapshot>} props - Configuration options for the mock client.
+ * @returns {ActorKitMockClient<TMachine, TCallerSnapshot>} An object with methods to interact with the mock actor.
  */
-export function createActorKitMockClient<TMachine extends AnyActorKitStateMachine>(
-  props: ActorKitMockClientProps<TMachine>
-): ActorKitMockClient<TMachine> {
+export function createActorKitMockClient<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+>(
+  props: ActorKitMockClientProps<TMachine, TCallerSnapshot>
+): ActorKitMockClient<TMachine, TCallerSnapshot> {
   let currentSnapshot = props.initialSnapshot;
-  const listeners: Set<(state: CallerSnapshotFrom<TMachine>) => void> = new Set();
+  const listeners: Set<(state: CallerSnapshotFrom<TMachine, TCallerSnapshot>) => void> = new Set();
 
   /**
    * Notifies all registered listeners with the current state.
@@ -37,9 +48,9 @@ export function createActorKitMockClient<TMachine extends AnyActorKitStateMachin
 
   /**
    * Updates the state using an Immer producer function.
-   * @param {(draft: Draft<CallerSnapshotFrom<TMachine>>) => void} recipe - The state update recipe.
+   * @param {(draft: Draft<CallerSnapshotFrom<TMachine, TCallerSnapshot>>) => void} recipe - The state update recipe.
    */
-  const produceFn = (recipe: (draft: Draft<CallerSnapshotFrom<TMachine>>) => void) => {
+  const produceFn = (recipe: (draft: Draft<CallerSnapshotFrom<TMachine, TCallerSnapshot>>) => void) => {
     currentSnapshot = produce(currentSnapshot, recipe);
     notifyListeners();
   };
@@ -47,24 +58,28 @@ export function createActorKitMockClient<TMachine extends AnyActorKitStateMachin
   /**
    * Sends an event to the mock client.
    * @param {ClientEventFrom<TMachine>} event - The event to send.
+   * @returns {Promise<ActorKitEventResult>} Resolves as if the event caused a transition.
    */
-  const send = (event: ClientEventFrom<TMachine>) => {
+  const send = async (
+    event: ClientEventFrom<TMachine>
+  ): Promise<ActorKitEventResult> => {
     props.onSend?.(event);
     notifyListeners();
+    return { checksum: "", transitioned: true };
   };
 
   /**
    * Retrieves the current state of the mock actor.
-   * @returns {CallerSnapshotFrom<TMachine>} The current state.
+   * @returns {CallerSnapshotFrom<TMachine, TCallerSnapshot>} The current state.
    */
   const getState = () => currentSnapshot;
 
   /**
    * Subscribes a listener to state changes.
-   * @param {(state: CallerSnapshotFrom<TMachine>) => void} listener - The listener function to be called on state changes.
+   * @param {(state: CallerSnapshotFrom<TMachine, TCallerSnapshot>) => void} listener - The listener function to be called on state changes.
    * @returns {() => void} A function to unsubscribe the listener.
    */
-  const subscribe = (listener: (state: CallerSnapshotFrom<TMachine>) => void) => {
+  const subscribe = (listener: (state: CallerSnapshotFrom<TMachine, TCallerSnapshot>) => void) => {
     listeners.add(listener);
     return () => {
       listeners.delete(listener);
@@ -89,12 +104,12 @@ export function createActorKitMockClient<TMachine extends AnyActorKitStateMachin
 
   /**
    * Waits for a state condition to be met.
-   * @param {(state: CallerSnapshotFrom<TMachine>) => boolean} predicateFn - Function that returns true when condition is met
+   * @param {(state: CallerSnapshotFrom<TMachine, TCallerSnapshot>) => boolean} predicateFn - Function that returns true when condition is met
    * @param {number} [timeoutMs=5000] - Maximum time to wait in milliseconds
    * @returns {Promise<void>} Resolves when condition is met, rejects on timeout
    */
   const waitFor = async (
-    predicateFn: (state: CallerSnapshotFrom<TMachine>) => boolean,
+    predicateFn: (state: CallerSnapshotFrom<TMachine, TCallerSnapshot>) => boolean,
     timeoutMs: number = 5000
   ): Promise<void> => {
     // Check if condition is already met
@@ -2,22 +2,42 @@ import {
   DurableObjectNamespace,
   ExecutionContext,
 } from "@cloudflare/workers-types";
+import {
+  ACTOR_NOT_SPAWNED_MESSAGE,
+  ACTOR_NOT_SPAWNED_STATUS,
+} from "./constants";
+import { createLogger } from "./createLogger";
 import { AnyEventSchema } from "./schemas";
 import {
+  ActorKitErrorCode,
   AnyActorKitStateMachine,
   AnyEvent,
   Caller,
   DurableObjectActor,
   EnvWithDurableObjects,
   KebabToScreamingSnake,
+  Logger,
   ScreamingSnakeToKebab,
 } from "./types";
-import { getCallerFromRequest } from "./utils";
+import { getCallerFromRequest, getRequestInfo } from "./utils";
+
+const SEND_ERROR_STATUS: Partial<Record<ActorKitErrorCode, number>> = {
+  RATE_LIMITED: 429,
+  EVENT_TOO_LARGE: 413,
+  FORBIDDEN: 403,
+  ACTOR_ERROR: 503,
+  NOT_SPAWNED: ACTOR_NOT_SPAWNED_STATUS,
+};
 
 export const createActorKitRouter = <Env extends EnvWithDurableObjects>(
-  routes: Array<ScreamingSnakeToKebab<Extract<keyof Env, string>>>
+  routes: Array<ScreamingSnakeToKebab<Extract<keyof Env, string>>>,
+  options?: {
+    /** Receives the router's logs. Defaults to `createLogger()`. */
+    logger?: Logger;
+  }
 ) => {
   type ActorType = ScreamingSnakeToKebab<Extract<keyof Env, string>>;
+  const logger = options?.logger ?? createLogger();
 
   // Add a Set to keep track of spawned actors
   const spawnedActors = new Set<string>();
@@ -67,6 +87,7 @@ export const createActorKitRouter = <Env extends EnvWithDurableObjects>(
     );
 
     if (!durableObjectNamespace) {
+      logger.error("Durable Object namespace not found", { actorType });
       return new Response(
         `Durable Object namespace not found for actor type: ${actorType}`,
         { status: 500 }
@@ -86,6 +107,11 @@ export const createActorKitRouter = <Env extends EnvWithDurableObjects>(
         env.ACTOR_KIT_SECRET
       );
     } catch (error: any) {
+      logger.warn("Rejected request without a valid caller", {
+        actorType,
+        actorId,
+        error,
+      });
       return new Response(
         `Error: ${error.message}. API requests must specify a valid caller in Bearer token in the Authorization header using fetch method created from 'createActorFetch' or use 'createAccessToken' directly.`,
         { status: 401 }
@@ -95,32 +121,102 @@ export const createActorKitRouter = <Env extends EnvWithDurableObjects>(
     // Create a unique key for the actor
     const actorKey = `${actorType}:${actorId}`;
 
-    // Check if the actor has already been spawned
-    if (!spawnedActors.has(actorKey)) {
-      // If not, spawn it and mark it as spawned
-      await durableObjectStub.spawn({
+    // Spawns the actor and marks it as spawned, or returns the error
+    // response if it rejects the input
+    const spawn = async (): Promise<Response | undefined> => {
+      // Input is only used on first spawn, the actor validates it
+      let input: Record<string, unknown> = {};
+      const inputParam = url.searchParams.get("input");
+      if (inputParam) {
+        try {
+          input = JSON.parse(inputParam);
+        } catch (ex: any) {
+          return new Response(
+            JSON.stringify({ error: `Invalid input: ${ex.message}` }),
+            { status: 400 }
+          );
+        }
+      }
+
+      const spawnResult = await durableObjectStub.spawn({
         actorType,
         actorId,
         caller,
-        input: {},
+        input,
       });
+      if ("issues" in spawnResult) {
+        logger.warn("Actor rejected spawn input", {
+          actorType,
+          actorId,
+          callerId: caller.id,
+        });
+        return new Response(
+          JSON.stringify({
+            error: "Invalid input",
+            issues: spawnResult.issues,
+          }),
+          { status: 400 }
+        );
+      }
       spawnedActors.add(actorKey);
+      return undefined;
+    };
+
+    // Actors that were destroyed since they were spawned report that they
+    // haven't been, so forget them and spawn them again
+    const respawn = async (): Promise<Response | undefined> => {
+      logger.info("Respawning destroyed actor", { actorType, actorId });
+      spawnedActors.delete(actorKey);
+      return spawn();
+    };
+
+    // Check if the actor has already been spawned
+    if (!spawnedActors.has(actorKey)) {
+      const spawnError = await spawn();
+      if (spawnError) {
+        return spawnError;
+      }
     }
 
     if (request.headers.get("Upgrade") === "websocket") {
-      return durableObjectStub.fetch(request as any) as any; // Handle WebSocket upgrade
+      // Handle WebSocket upgrade
+      let response = await durableObjectStub.fetch(request as any);
+      if (response.status === ACTOR_NOT_SPAWNED_STATUS) {
+        const spawnError = await respawn();
+        if (spawnError) {
+          return spawnError;
+        }
+        response = await durableObjectStub.fetch(request as any);
+      }
+      return response as any;
     }
 
     if (request.method === "GET") {
-      const { waitForEvent, waitForState, timeout, errorOnWaitTimeout } = 
+      const { waitForEvent, waitForState, since, timeout, errorOnWaitTimeout } = 
         Object.fromEntries(new URL(request.url).searchParams);
       
-      const result = await durableObjectStub.getSnapshot(caller, {
-        waitForEvent: waitForEvent ? JSON.parse(waitForEvent) : undefined,
-        waitForState: waitForState ? JSON.parse(waitForState) : undefined,
-        timeout: timeout ? parseInt(timeout, 10) : undefined,
-        errorOnWaitTimeout: errorOnWaitTimeout ? errorOnWaitTimeout === 'true' : undefined,
-      });
+      const getSnapshot = () =>
+        durableObjectStub.getSnapshot(caller, {
+          waitForEvent: waitForEvent ? JSON.parse(waitForEvent) : undefined,
+          waitForState: waitForState ? JSON.parse(waitForState) : undefined,
+          since: since ? parseInt(since, 10) : undefined,
+          timeout: timeout ? parseInt(timeout, 10) : undefined,
+          errorOnWaitTimeout: errorOnWaitTimeout ? errorOnWaitTimeout === 'true' : undefined,
+        });
+      let result: Awaited<ReturnType<typeof getSnapshot>>;
+      try {
+        result = await getSnapshot();
+      } catch (error: any) {
+        // Errors thrown by Durable Objects keep their message over RPC
+        if (!String(error?.message).includes(ACTOR_NOT_SPAWNED_MESSAGE)) {
+          throw error;
+        }
+        const spawnError = await respawn();
+        if (spawnError) {
+          return spawnError;
+        }
+        result = await getSnapshot();
+      }
       return new Response(JSON.stringify(result), {
         headers: { "Content-Type": "application/json" },
       });
@@ -135,10 +231,33 @@ export const createActorKitRouter = <Env extends EnvWithDurableObjects>(
         });
       }
 
-      durableObjectStub.send({
-        ...event,
-        caller,
-      });
+      const send = () =>
+        durableObjectStub.send({
+          ...event,
+          caller,
+          requestInfo: getRequestInfo(request),
+        });
+      let sendResult = await send();
+      if ("code" in sendResult && sendResult.code === "NOT_SPAWNED") {
+        const spawnError = await respawn();
+        if (spawnError) {
+          return spawnError;
+        }
+        sendResult = await send();
+      }
+      if ("code" in sendResult) {
+        logger.info("Actor rejected event", {
+          actorType,
+          actorId,
+          callerId: caller.id,
+          eventType: event.type,
+          code: sendResult.code,
+        });
+        return new Response(
+          JSON.stringify({ error: sendResult.message, code: sendResult.code }),
+          { status: SEND_ERROR_STATUS[sendResult.code] ?? 400 }
+        );
+      }
       return new Response(JSON.stringify({ success: true }));
     } else {
       return new Response(JSON.stringify({ error: "Method not allowed" }), {
@@ -0,0 +1,26 @@
+/**
+ * Serializes a value to JSON with object keys sorted, so equal values produce
+ * the same string regardless of key insertion order.
+ */
+const stableStringify = (value: unknown) =>
+  JSON.stringify(value, (_key, val) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.keys(val)
+            .sort()
+            .map((key) => [key, val[key]])
+        )
+      : val
+  );
+
+/**
+ * Computes a SHA-256 checksum of a value's canonical JSON form, truncated to
+ * 128 bits and hex encoded.
+ */
+export async function createChecksum(value: unknown): Promise<string> {
+  const data = new TextEncoder().encode(stableStringify(value));
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest).slice(0, 16), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
@@ -0,0 +1,69 @@
+import { LogEntry, LogFields, Logger, LogLevel } from "./types";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// Fields that can hold actor state or user data
+const DEFAULT_REDACTED_FIELDS = [
+  "snapshot",
+  "context",
+  "input",
+  "payload",
+  "operations",
+];
+
+/**
+ * Creates a logger that writes structured entries to the console. Entries
+ * below `level` are dropped, and fields that can hold actor state are
+ * replaced with `"[redacted]"`.
+ *
+ * @param options.level - The lowest level to log. Defaults to "warn".
+ * @param options.redact - Names of fields to redact, or `false` to log every field. Defaults to snapshot, context, input, payload and operations.
+ * @param options.write - Receives each entry instead of the console.
+ */
+export function createLogger(options?: {
+  level?: LogLevel;
+  redact?: string[] | false;
+  write?: (entry: LogEntry) => void;
+}): Logger {
+  const minLevel = LOG_LEVELS.indexOf(options?.level ?? "warn");
+  const redacted = new Set(
+    options?.redact === false
+      ? []
+      : options?.redact ?? DEFAULT_REDACTED_FIELDS
+  );
+
+  const log =
+    (level: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (LOG_LEVELS.indexOf(level) < minLevel) {
+        return;
+      }
+      const entry: LogEntry = {
+        level,
+        message,
+        timestamp: new Date().toISOString(),
+      };
+      for (const [key, value] of Object.entries(fields ?? {})) {
+        if (value === undefined) {
+          continue;
+        }
+        entry[key] = redacted.has(key)
+          ? "[redacted]"
+          : value instanceof Error
+          ? { name: value.name, message: value.message, stack: value.stack }
+          : value;
+      }
+      if (options?.write) {
+        options.write(entry);
+      } else {
+        console[level](entry);
+      }
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
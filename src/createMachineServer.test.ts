@@ -0,0 +1,472 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  assign,
+  fromCallback,
+  sendParent,
+  sendTo,
+  setup,
+  spawnChild,
+} from "xstate";
+import { z } from "zod";
+import {
+  PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY,
+  PERSISTED_SNAPSHOT_CHUNK_KEY_PREFIX,
+  PERSISTED_SNAPSHOT_KEY,
+  PERSISTED_SNAPSHOT_PATCH_KEY_PREFIX,
+} from "./constants";
+import { createMachineServer } from "./createMachineServer";
+import { Caller } from "./types";
+
+vi.mock("cloudflare:workers", () => ({
+  DurableObject: class {
+    constructor(readonly ctx: unknown, readonly env: unknown) {}
+  },
+}));
+
+// In-memory stand-in for a Durable Object's state. Creating a server over
+// the same `data` again behaves like the Durable Object restarting.
+const createDurableObjectState = (data: Map<string, unknown>) => {
+  let ready: Promise<unknown> = Promise.resolve();
+  let alarm: number | null = null;
+  const storage = {
+    async get(key: string | string[]) {
+      if (Array.isArray(key)) {
+        return new Map(
+          key.filter((k) => data.has(k)).map((k) => [k, data.get(k)])
+        );
+      }
+      return data.get(key);
+    },
+    async put(key: string | Record<string, unknown>, value?: unknown) {
+      const entries =
+        typeof key === "string" ? { [key]: value } : (key as object);
+      for (const [k, v] of Object.entries(entries)) {
+        data.set(k, v);
+      }
+    },
+    async delete(key: string | string[]) {
+      for (const k of Array.isArray(key) ? key : [key]) {
+        data.delete(k);
+      }
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      return new Map(
+        [...data.entries()]
+          .filter(([key]) => key.startsWith(prefix))
+          .sort(([a], [b]) => (a < b ? -1 : 1))
+      );
+    },
+    async deleteAll() {
+      data.clear();
+    },
+    async getAlarm() {
+      return alarm;
+    },
+    async setAlarm(scheduledTime: number) {
+      alarm = scheduledTime;
+    },
+    async deleteAlarm() {
+      alarm = null;
+    },
+  };
+  return {
+    state: {
+      storage,
+      blockConcurrencyWhile<T>(callback: () => Promise<T>) {
+        const result = ready.then(callback);
+        ready = result;
+        return result;
+      },
+      getWebSockets: () => [],
+      acceptWebSocket: () => {},
+    },
+    ready: () => ready,
+  };
+};
+
+// Children restarted rather than restored lose their input
+const ticker = fromCallback<{ type: "PING" }, { step: number } | undefined>(
+  ({ input, sendBack, receive }) => {
+    receive(() => {
+      sendBack({ type: "PONG", step: input?.step ?? 1 });
+    });
+  }
+);
+
+const counter = setup({
+  types: {} as { context: { count: number } },
+}).createMachine({
+  context: { count: 0 },
+  on: {
+    INC: {
+      actions: [
+        assign({ count: ({ context }) => context.count + 1 }),
+        sendParent(({ context }) => ({
+          type: "COUNTED",
+          count: context.count,
+        })),
+      ],
+    },
+  },
+});
+
+const machine = setup({
+  types: {} as {
+    context: {
+      public: { pongs: number; count: number };
+      private: Record<string, {}>;
+    };
+    events:
+      | { type: "PING" }
+      | { type: "PONG"; step: number }
+      | { type: "INC" }
+      | { type: "COUNTED"; count: number };
+  },
+  actors: { ticker, counter },
+}).createMachine({
+  id: "parent",
+  context: { public: { pongs: 0, count: 0 }, private: {} },
+  entry: spawnChild("counter", { id: "counter" }),
+  invoke: { id: "ticker", src: "ticker", input: { step: 10 } },
+  on: {
+    PING: { actions: sendTo("ticker", { type: "PING" }) },
+    PONG: {
+      actions: assign({
+        public: ({ context, event }) => ({
+          ...context.public,
+          pongs: context.public.pongs + event.step,
+        }),
+      }),
+    },
+    INC: { actions: sendTo("counter", { type: "INC" }) },
+    COUNTED: {
+      actions: assign({
+        public: ({ context, event }) => ({
+          ...context.public,
+          count: event.count,
+        }),
+      }),
+    },
+  },
+});
+
+const Server = createMachineServer({
+  machine: machine as any,
+  schemas: {
+    clientEvent: z.object({ type: z.literal("PING") }),
+    serviceEvent: z.object({ type: z.enum(["PING", "INC"]) }),
+    inputProps: z.object({}),
+  },
+  options: {
+    persisted: true,
+    logger: { debug() {}, info() {}, warn() {}, error() {} },
+  },
+});
+
+const caller: Caller = { id: "service", type: "service" };
+
+const startServer = async (data: Map<string, unknown>) => {
+  const { state, ready } = createDurableObjectState(data);
+  const server = new Server(state as any, {} as any, {} as any);
+  await ready();
+  return server;
+};
+
+const send = (server: InstanceType<typeof Server>, type: "PING" | "INC") =>
+  expect(server.send({ type, caller } as any)).toEqual({ success: true });
+
+const getPublicContext = async (server: InstanceType<typeof Server>) => {
+  const { snapshot } = await server.getSnapshot(caller);
+  return (snapshot as { public: { pongs: number; count: number } }).public;
+};
+
+const spawnServer = async (data: Map<string, unknown>) => {
+  const server = await startServer(data);
+  await server.spawn({
+    actorType: "parent",
+    actorId: "test",
+    caller,
+    input: {},
+  });
+  send(server, "PING");
+  send(server, "INC");
+  send(server, "INC");
+  await vi.waitFor(async () => {
+    const persisted = await server.loadPersistedSnapshot();
+    expect(persisted?.context.public).toEqual({ pongs: 10, count: 2 });
+  });
+  return server;
+};
+
+describe("createMachineServer persistence", () => {
+  it("restores invoked callbacks across a restart", async () => {
+    const data = new Map<string, unknown>();
+    await spawnServer(data);
+
+    const restarted = await startServer(data);
+    send(restarted, "PING");
+    expect(await getPublicContext(restarted)).toEqual({ pongs: 20, count: 2 });
+  });
+
+  it("restores spawned machines with their state across a restart", async () => {
+    const data = new Map<string, unknown>();
+    await spawnServer(data);
+
+    const restarted = await startServer(data);
+    send(restarted, "INC");
+    expect(await getPublicContext(restarted)).toEqual({ pongs: 10, count: 3 });
+  });
+
+  it("restarts invoked children of snapshots stored without their src", async () => {
+    const data = new Map<string, unknown>();
+    const server = await spawnServer(data);
+
+    // Snapshots used to be stored from the live snapshot, which serializes
+    // child actors as references by id
+    const persisted = (await server.loadPersistedSnapshot()) as any;
+    const legacySnapshot = {
+      ...persisted,
+      children: Object.fromEntries(
+        Object.keys(persisted.children).map((id) => [
+          id,
+          { xstate$$type: 1, id },
+        ])
+      ),
+    };
+    for (const key of data.keys()) {
+      if (
+        key.startsWith(PERSISTED_SNAPSHOT_CHUNK_KEY_PREFIX) ||
+        key.startsWith(PERSISTED_SNAPSHOT_PATCH_KEY_PREFIX)
+      ) {
+        data.delete(key);
+      }
+    }
+    data.delete(PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY);
+    data.set(PERSISTED_SNAPSHOT_KEY, JSON.stringify(legacySnapshot));
+
+    const restarted = await startServer(data);
+    expect(await getPublicContext(restarted)).toEqual({ pongs: 10, count: 2 });
+    send(restarted, "PING");
+    expect(await getPublicContext(restarted)).toEqual({ pongs: 11, count: 2 });
+  });
+
+  it("keeps encrypted snapshot chunks within maxChunkSize", async () => {
+    const EncryptedServer = createMachineServer({
+      machine: setup({
+        types: {} as {
+          context: { public: { text: string }; private: Record<string, {}> };
+          input: { text: string };
+        },
+      }).createMachine({
+        context: ({ input }) => ({ public: { text: input.text }, private: {} }),
+      }) as any,
+      schemas: {
+        clientEvent: z.object({ type: z.literal("PING") }),
+        serviceEvent: z.object({ type: z.literal("PING") }),
+        inputProps: z.object({ text: z.string() }),
+      },
+      options: {
+        persisted: true,
+        persistence: { maxChunkSize: 1000 },
+        encryption: {
+          currentKeyId: "key",
+          keys: () => ({
+            key: btoa(String.fromCharCode(...new Uint8Array(32))),
+          }),
+        },
+        logger: { debug() {}, info() {}, warn() {}, error() {} },
+      },
+    });
+    const startEncryptedServer = async (data: Map<string, unknown>) => {
+      const { state, ready } = createDurableObjectState(data);
+      const server = new EncryptedServer(state as any, {} as any, {} as any);
+      await ready();
+      return server;
+    };
+
+    // Multi-byte characters grow the most once encrypted
+    const text = "é🙂".repeat(1000);
+    const data = new Map<string, unknown>();
+    const server = await startEncryptedServer(data);
+    await server.spawn({
+      actorType: "encrypted",
+      actorId: "test",
+      caller,
+      input: { text },
+    });
+    await vi.waitFor(() => {
+      expect(data.get(PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY)).toBeGreaterThan(1);
+    });
+    for (const [key, value] of data) {
+      if (key.startsWith(PERSISTED_SNAPSHOT_CHUNK_KEY_PREFIX)) {
+        expect((value as string).length).toBeLessThanOrEqual(1000);
+      }
+    }
+
+    const restarted = await startEncryptedServer(data);
+    const { snapshot } = await restarted.getSnapshot(caller);
+    expect((snapshot as { public: { text: string } }).public.text).toBe(text);
+  });
+});
+
+describe("createMachineServer idle timeout", () => {
+  const IdleServer = createMachineServer({
+    machine: setup({
+      types: {} as {
+        context: { public: { keep: boolean }; private: Record<string, {}> };
+        input: { keep: boolean };
+      },
+    }).createMachine({
+      context: ({ input }) => ({ public: { keep: input.keep }, private: {} }),
+      on: {
+        IDLE_TIMEOUT: { guard: ({ context }) => context.public.keep },
+      },
+    }) as any,
+    schemas: {
+      clientEvent: z.object({ type: z.literal("PING") }),
+      serviceEvent: z.object({ type: z.literal("PING") }),
+      inputProps: z.object({ keep: z.boolean() }),
+    },
+    options: {
+      idleTimeout: 0,
+      logger: { debug() {}, info() {}, warn() {}, error() {} },
+    },
+  });
+
+  const expireIdleServer = async (keep: boolean) => {
+    const data = new Map<string, unknown>();
+    const { state, ready } = createDurableObjectState(data);
+    const server = new IdleServer(state as any, {} as any, {} as any);
+    await ready();
+    await server.spawn({
+      actorType: "idle",
+      actorId: "test",
+      caller,
+      input: { keep },
+    });
+    await server.alarm();
+    return data;
+  };
+
+  it("keeps actors whose machine handles IDLE_TIMEOUT with a guard only", async () => {
+    expect((await expireIdleServer(true)).get("actorId")).toBe("test");
+  });
+
+  it("destroys actors whose machine ignores IDLE_TIMEOUT", async () => {
+    expect((await expireIdleServer(false)).size).toBe(0);
+  });
+});
+
+describe("createMachineServer errors", () => {
+  it("reports errors thrown by actions through onError only", async () => {
+    const onError = vi.fn();
+    const FailingServer = createMachineServer({
+      machine: setup({
+        types: {} as {
+          context: { public: {}; private: Record<string, {}> };
+        },
+      }).createMachine({
+        context: { public: {}, private: {} },
+        on: {
+          BOOM: {
+            actions: () => {
+              throw new Error("boom");
+            },
+          },
+        },
+      }) as any,
+      schemas: {
+        clientEvent: z.object({ type: z.literal("BOOM") }),
+        serviceEvent: z.object({ type: z.literal("BOOM") }),
+        inputProps: z.object({}),
+      },
+      options: {
+        persisted: true,
+        onError,
+        logger: { debug() {}, info() {}, warn() {}, error() {} },
+      },
+    });
+    const { state, ready } = createDurableObjectState(new Map());
+    const server = new FailingServer(state as any, {} as any, {} as any);
+    await ready();
+    await server.spawn({
+      actorType: "failing",
+      actorId: "test",
+      caller,
+      input: {},
+    });
+
+    expect(server.send({ type: "BOOM", caller } as any)).toMatchObject({
+      success: false,
+      code: "ACTOR_ERROR",
+    });
+    // XState rethrows errors nobody handles on a later tick
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it("delivers delayed events after restarting from the last persisted snapshot", async () => {
+    const DelayedServer = createMachineServer({
+      machine: setup({
+        types: {} as {
+          context: { public: {}; private: Record<string, {}> };
+        },
+      }).createMachine({
+        context: { public: {}, private: {} },
+        initial: "waiting",
+        states: {
+          waiting: {
+            after: { 1000: "done" },
+            on: {
+              BOOM: {
+                actions: () => {
+                  throw new Error("boom");
+                },
+              },
+            },
+          },
+          done: {},
+        },
+      }) as any,
+      schemas: {
+        clientEvent: z.object({ type: z.literal("BOOM") }),
+        serviceEvent: z.object({ type: z.literal("BOOM") }),
+        inputProps: z.object({}),
+      },
+      options: {
+        persisted: true,
+        restartPolicy: "lastPersisted",
+        logger: { debug() {}, info() {}, warn() {}, error() {} },
+      },
+    });
+    const { state, ready } = createDurableObjectState(new Map());
+    const server = new DelayedServer(state as any, {} as any, {} as any);
+    await ready();
+    await server.spawn({
+      actorType: "delayed",
+      actorId: "test",
+      caller,
+      input: {},
+    });
+    await vi.waitFor(async () => {
+      expect((await server.loadPersistedSnapshot())?.value).toBe("waiting");
+    });
+
+    server.send({ type: "BOOM", caller } as any);
+    await ready();
+    const { snapshot } = await server.getSnapshot(caller);
+    expect((snapshot as { value: unknown }).value).toBe("waiting");
+    const alarm = await state.storage.getAlarm();
+    expect(alarm).not.toBeNull();
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(alarm!);
+      await server.alarm();
+    } finally {
+      vi.useRealTimers();
+    }
+    const { snapshot: delivered } = await server.getSnapshot(caller);
+    expect((delivered as { value: unknown }).value).toBe("done");
+  });
+});
@@ -1,9 +1,13 @@
 // Import necessary dependencies and types
 import { DurableObject } from "cloudflare:workers";
-import { compare } from "fast-json-patch";
+import { applyPatch, compare, Operation } from "fast-json-patch";
 import {
   Actor,
+  ActorOptions,
   AnyEventObject,
+  AnyMachineSnapshot,
+  AnyStateMachine,
+  AnyStateNode,
   createActor,
   InputFrom,
   matchesState,
@@ -13,23 +17,70 @@ import {
 } from "xstate";
 import { xstateMigrate } from "xstate-migrate";
 import { z } from "zod";
-import { PERSISTED_SNAPSHOT_KEY } from "./constants";
-import { CallerSchema } from "./schemas";
 import {
+  ACTOR_DESTROYED_CLOSE_CODE,
+  ACTOR_NOT_SPAWNED_MESSAGE,
+  ACTOR_NOT_SPAWNED_STATUS,
+  ACTOR_SUBSCRIBER_KEY_PREFIX,
+  DEFAULT_DISCONNECT_GRACE_PERIOD,
+  DEFAULT_MAX_VIOLATIONS,
+  DEFAULT_PERSISTENCE_COMPACT_AFTER_PATCHES,
+  DEFAULT_PERSISTENCE_MAX_CHUNK_SIZE,
+  DEFAULT_WAIT_FOR_EVENT_LOOKBACK,
+  EVENT_LOG_KEY_PREFIX,
+  EVENT_LOG_LENGTH_KEY,
+  PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY,
+  PERSISTED_SNAPSHOT_CHUNK_KEY_PREFIX,
+  PERSISTED_SNAPSHOT_KEY,
+  PERSISTED_SNAPSHOT_PATCH_KEY_PREFIX,
+  PERSISTED_SNAPSHOT_VERSION_KEY,
+  DESTROY_AT_KEY,
+  LAST_ACTIVITY_KEY,
+  PENDING_DISCONNECT_KEY_PREFIX,
+  QUARANTINED_SNAPSHOT_KEY_PREFIX,
+  SCHEDULED_EVENT_KEY_PREFIX,
+} from "./constants";
+import { createChecksum } from "./createChecksum";
+import { createLogger } from "./createLogger";
+import { AnyEventSchema, CallerSchema, RequestInfoSchema } from "./schemas";
+import {
+  ActorIdentity,
+  ActorKitEmittedEvent,
+  ActorKitErrorCode,
   ActorKitInputProps,
   ActorKitStateMachine,
   ActorKitSystemEvent,
   ActorServer,
+  ActorSnapshotUpdate,
   Caller,
+  CallerEventFrom,
   CallerSnapshotFrom,
   ClientEventFrom,
   EnvFromMachine,
+  EventLogEntry,
+  EventMatcherFrom,
+  EventPoliciesFrom,
+  LogFields,
+  LogLevel,
   MachineServerOptions,
+  RestartPolicy,
+  SendResult,
   ServiceEventFrom,
+  SnapshotMigration,
+  SpawnResult,
   WithActorKitContext,
   WithActorKitEvent,
 } from "./types";
-import { assert, getCallerFromRequest } from "./utils";
+import {
+  assert,
+  decryptValue,
+  encryptValue,
+  getActorStub,
+  getCallerFromRequest,
+  getRequestInfo,
+  importEncryptionKey,
+  matchesPartial,
+} from "./utils";
 
 // Define schemas for storage and WebSocket attachments
 const StorageSchema = z.object({
@@ -42,9 +93,171 @@ const StorageSchema = z.object({
 const WebSocketAttachmentSchema = z.object({
   caller: CallerSchema,
   lastSentChecksum: z.string().optional(),
+  requestInfo: RequestInfoSchema.optional(),
 });
 type WebSocketAttachment = z.infer<typeof WebSocketAttachmentSchema>;
 
+const EventEnvelopeSchema = z
+  .object({
+    id: z.string(),
+    event: z.object({ type: z.string() }).passthrough(),
+  })
+  .strict();
+
+// Delayed events are stored so they can be delivered by an alarm even after
+// the in-memory timer was lost to hibernation or eviction
+const ScheduledEventSchema = z.object({
+  event: z.object({ type: z.string() }).passthrough().optional(),
+  dueAt: z.number(),
+  targetId: z.string().optional(),
+});
+type ScheduledEvent = z.infer<typeof ScheduledEventSchema>;
+
+const EventLogEntrySchema = z.object({
+  index: z.number(),
+  type: z.string(),
+  payload: z.record(z.unknown()),
+  caller: CallerSchema,
+  timestamp: z.number(),
+  checksum: z.string(),
+});
+
+// Actors subscribed to this actor's snapshot, with the checksum of the
+// snapshot they were last sent so they can be sent patches
+const ActorSubscriberSchema = z.object({
+  actorType: z.string(),
+  actorId: z.string(),
+  lastSentChecksum: z.string().optional(),
+});
+type ActorSubscriber = z.infer<typeof ActorSubscriberSchema>;
+
+// Callers whose last WebSocket closed, stored so DISCONNECT is still sent by
+// an alarm if the grace period outlives the instance
+const PendingDisconnectSchema = z.object({
+  caller: CallerSchema,
+  disconnectAt: z.number(),
+});
+type PendingDisconnect = z.infer<typeof PendingDisconnectSchema>;
+
+const getActorKey = ({ actorType, actorId }: ActorIdentity) =>
+  `${actorType}:${actorId}`;
+
+// Zero-padded so storage lists event log entries in order
+const getEventLogKey = (index: number) =>
+  `${EVENT_LOG_KEY_PREFIX}${index.toString().padStart(12, "0")}`;
+
+// Durable Object storage accepts at most 128 keys per get/put/delete call
+const MAX_KEYS_PER_STORAGE_CALL = 128;
+
+const getPatchKey = (index: number) =>
+  `${PERSISTED_SNAPSHOT_PATCH_KEY_PREFIX}${index.toString().padStart(12, "0")}`;
+
+const getChunkKey = (index: number) =>
+  `${PERSISTED_SNAPSHOT_CHUNK_KEY_PREFIX}${index}`;
+
+const batchKeys = (keys: string[]) => {
+  const batches: string[][] = [];
+  for (let i = 0; i < keys.length; i += MAX_KEYS_PER_STORAGE_CALL) {
+    batches.push(keys.slice(i, i + MAX_KEYS_PER_STORAGE_CALL));
+  }
+  return batches;
+};
+
+// Snapshots are stored with the version of the newest migration
+const getSnapshotVersion = (migrations: SnapshotMigration[] = []) =>
+  Math.max(0, ...migrations.map(({ version }) => version));
+
+// Snapshots stored before actors persisted XState's persisted snapshot
+// format reference child actors by id only, without the `src` XState needs to
+// restore them. Invoked children are pointed at the logic of the invocation
+// with the same id, which restarts them from their initial state. Other
+// children, like spawned ones, can't be resolved and are dropped by XState.
+const restoreLegacyChildren = (
+  machine: AnyStateMachine,
+  snapshot: AnyMachineSnapshot
+): AnyMachineSnapshot => {
+  const children = (snapshot.children ?? {}) as Record<string, object>;
+  if (Object.values(children).every((child) => "src" in child)) {
+    return snapshot;
+  }
+
+  const invocations = new Map<string, unknown>();
+  const addInvocations = (stateNode: AnyStateNode) => {
+    for (const { id, src } of stateNode.invoke) {
+      invocations.set(id, src);
+    }
+    Object.values(stateNode.states).forEach(addInvocations);
+  };
+  addInvocations(machine.root);
+
+  const restoredChildren: Record<string, object> = {};
+  for (const [id, child] of Object.entries(children)) {
+    if ("src" in child) {
+      restoredChildren[id] = child;
+    } else if (invocations.has(id)) {
+      restoredChildren[id] = { src: invocations.get(id) };
+    }
+  }
+  return { ...snapshot, children: restoredChildren } as AnyMachineSnapshot;
+};
+
+// Whether the machine takes a transition for the event. Unlike
+// `snapshot.can()`, this counts transitions that only have a guard, while
+// forbidden transitions (no target, actions or guard) still don't count
+const hasEnabledTransition = (
+  snapshot: AnyMachineSnapshot,
+  event: Parameters<AnyMachineSnapshot["can"]>[0]
+) =>
+  snapshot.machine
+    .getTransitionData(snapshot, event)
+    .some(
+      ({ target, actions, guard }) =>
+        target !== undefined || actions.length > 0 || guard !== undefined
+    );
+
+// Replays read the actor's storage, but their writes are discarded
+const REPLAY_STORAGE_READS = new Set<PropertyKey>(["get", "list", "getAlarm"]);
+
+const createReplayStorage = (storage: DurableObjectStorage) =>
+  new Proxy(storage, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== "function") {
+        return value;
+      }
+      return REPLAY_STORAGE_READS.has(property)
+        ? value.bind(target)
+        : async () => undefined;
+    },
+  });
+
+// Replays get the env without Durable Object namespaces, so replayed actions
+// can't send events to or subscribe to other actors
+const createReplayEnv = <TEnv extends object>(env: TEnv) =>
+  Object.fromEntries(
+    Object.entries(env).filter(
+      ([, value]) =>
+        !(
+          value &&
+          typeof value === "object" &&
+          "get" in value &&
+          "idFromName" in value
+        )
+    )
+  ) as TEnv;
+
+const formatIssues = (issues: z.ZodIssue[]) =>
+  issues.map(({ path, message }) => `${path.join(".")}: ${message}`).join("; ");
+
+const defaultLogger = createLogger();
+
+// Number of recently handled events kept around for `waitForEvent`
+const MAX_PROCESSED_EVENTS = 100;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
 /**
  * Creates a MachineServer class that extends DurableObject and implements ActorServer.
  * This function is the main entry point for creating a machine server.
@@ -57,6 +270,7 @@ export const createMachineServer = <
     (
       | WithActorKitEvent<TClientEvent, "client">
       | WithActorKitEvent<TServiceEvent, "service">
+      | WithActorKitEvent<TActorEvent, "system">
       | ActorKitSystemEvent
     ) & {
       storage: DurableObjectStorage;
@@ -68,27 +282,36 @@ export const createMachineServer = <
       storage: DurableObjectStorage;
     },
     WithActorKitContext<any, any, any>
-  >
+  >,
+  TActorEvent extends AnyEventObject = never,
+  TCallerSnapshot extends object = never
 >({
   machine,
   schemas,
+  policies,
   options,
 }: {
   machine: TMachine;
   schemas: {
     clientEvent: z.ZodSchema<TClientEvent>;
     serviceEvent: z.ZodSchema<TServiceEvent>;
+    actorEvent?: z.ZodSchema<TActorEvent>;
     inputProps: TInputSchema;
+    publicContext?: z.ZodSchema<SnapshotFrom<TMachine>["context"]["public"]>;
+    privateContext?: z.ZodSchema<
+      SnapshotFrom<TMachine>["context"]["private"][string]
+    >;
   };
-  options?: MachineServerOptions;
+  policies?: EventPoliciesFrom<TMachine>;
+  options?: MachineServerOptions<TMachine, TCallerSnapshot>;
 }): new (
   state: DurableObjectState,
   env: EnvFromMachine<TMachine>,
   ctx: ExecutionContext
-) => ActorServer<TMachine> =>
+) => ActorServer<TMachine, TCallerSnapshot> =>
   class MachineServerImpl
     extends DurableObject
-    implements ActorServer<TMachine>
+    implements ActorServer<TMachine, TCallerSnapshot>
   {
     // Class properties
     actor: Actor<TMachine> | undefined;
@@ -96,7 +319,13 @@ export const createMachineServer = <
     actorId: string | undefined;
     input: Record<string, unknown> | undefined;
     initialCaller: Caller | undefined;
-    lastPersistedSnapshot: SnapshotFrom<TMachine> | null = null;
+    // JSON form of the snapshot currently in storage (base plus patches)
+    lastPersistedSnapshot: Record<string, unknown> | null = null;
+    persistedPatchCount = 0;
+    persistedChunkCount = 0;
+    persistedSnapshotVersion = 0;
+    persistTimeout: ReturnType<typeof setTimeout> | undefined;
+    persistQueue: Promise<void> = Promise.resolve();
     lastSnapshotChecksum: string | null = null;
     snapshotCache: Map<
       string,
@@ -108,6 +337,28 @@ export const createMachineServer = <
     subscriptions: Map<WebSocket, Subscription>;
     env: EnvFromMachine<TMachine>;
     currentChecksum: string | null = null;
+    checksumCache: WeakMap<object, Promise<string>> = new WeakMap();
+    stateUpdateQueue: Promise<void> = Promise.resolve();
+    pendingDisconnects: Map<string, PendingDisconnect> = new Map();
+    scheduledTimers: Map<string, () => void> = new Map();
+    eventLogLength = 0;
+    eventLogQueue: Promise<void> = Promise.resolve();
+    processedEvents: Array<{
+      event: CallerEventFrom<TMachine>;
+      handledAt: number;
+    }> = [];
+    processedEventListeners: Set<(event: CallerEventFrom<TMachine>) => void> =
+      new Set();
+    rateLimitBuckets: Map<string, { tokens: number; updatedAt: number }> =
+      new Map();
+    socketViolations: WeakMap<WebSocket, number> = new WeakMap();
+    actorSubscribers: Map<string, ActorSubscriber> = new Map();
+    actorSubscriberQueue: Promise<void> = Promise.resolve();
+    remoteSnapshots: Map<string, Record<string, unknown>> = new Map();
+    lastActivity: number | undefined;
+    recovering = false;
+    startupError: Error | undefined;
+    encryptionKeys: Promise<Map<string, CryptoKey>> | undefined;
 
     /**
      * Constructor for the MachineServerImpl class.
@@ -134,9 +385,38 @@ export const createMachineServer = <
             this.storage.get("initialCaller"),
             this.storage.get("input"),
           ]);
-        console.debug(
-          `[${this.actorId}] Attempting to load actor data from storage`
-        );
+        this.#log("debug", "Loading actor data from storage");
+
+        if (options?.eventLog) {
+          this.eventLogLength =
+            (await this.storage.get<number>(EVENT_LOG_LENGTH_KEY)) ?? 0;
+        }
+        if (options?.idleTimeout !== undefined) {
+          this.lastActivity = await this.storage.get<number>(LAST_ACTIVITY_KEY);
+        }
+
+        const subscribers = await this.storage.list({
+          prefix: ACTOR_SUBSCRIBER_KEY_PREFIX,
+        });
+        for (const value of subscribers.values()) {
+          const result = ActorSubscriberSchema.safeParse(value);
+          if (result.success) {
+            this.actorSubscribers.set(getActorKey(result.data), result.data);
+          }
+        }
+
+        const pendingDisconnects = await this.storage.list({
+          prefix: PENDING_DISCONNECT_KEY_PREFIX,
+        });
+        for (const [key, value] of pendingDisconnects) {
+          const result = PendingDisconnectSchema.safeParse(value);
+          if (result.success) {
+            this.pendingDisconnects.set(
+              key.slice(PENDING_DISCONNECT_KEY_PREFIX.length),
+              result.data
+            );
+          }
+        }
 
         if (actorType && actorId && initialCallerString && inputString) {
           try {
@@ -144,9 +424,9 @@ export const createMachineServer = <
               actorType,
               actorId,
               initialCaller: JSON.parse(
-                initialCallerString as string
+                await this.#decrypt(initialCallerString as string)
               ) as Caller,
-              input: JSON.parse(inputString as string),
+              input: JSON.parse(await this.#decrypt(inputString as string)),
             });
 
             this.actorType = parsedData.actorType;
@@ -157,7 +437,7 @@ export const createMachineServer = <
             if (options?.persisted) {
               const persistedSnapshot = await this.loadPersistedSnapshot();
               if (persistedSnapshot) {
-                this.restorePersistedActor(persistedSnapshot);
+                await this.#restoreActor(persistedSnapshot);
               } else {
                 this.#ensureActorRunning();
               }
@@ -165,53 +445,83 @@ export const createMachineServer = <
               this.#ensureActorRunning();
             }
           } catch (error) {
-            console.error("Failed to parse stored data:", error);
+            this.#log("error", "Failed to parse stored data", { error });
           }
         }
 
         // Resume all existing WebSockets
-        this.state.getWebSockets().forEach((ws) => {
-          this.#subscribeSocketToActor(ws);
-        });
+        if (this.actor) {
+          this.state.getWebSockets().forEach((ws) => {
+            this.#subscribeSocketToActor(ws);
+          });
+        }
       });
 
       this.#startPeriodicCacheCleanup();
     }
 
+    /**
+     * Logs through the `logger` option, tagged with the actor's type and id.
+     * @private
+     */
+    #log(level: LogLevel, message: string, fields?: LogFields) {
+      (options?.logger ?? defaultLogger)[level](message, {
+        actorType: this.actorType,
+        actorId: this.actorId,
+        ...fields,
+      });
+    }
+
     /**
      * Ensures that the actor is running. If not, it creates and initializes the actor.
      * @private
      */
     #ensureActorRunning() {
-      assert(this.actorId, "actorId is not set");
+      if (this.startupError) {
+        throw this.startupError;
+      }
+      if (!this.actorId) {
+        throw new Error(ACTOR_NOT_SPAWNED_MESSAGE);
+      }
       assert(this.actorType, "actorType is not set");
       assert(this.input, "input is not set");
       assert(this.initialCaller, "initialCaller is not set");
 
       if (!this.actor) {
-        console.debug(`[${this.actorId}] Creating new actor`);
-        const input = {
-          id: this.actorId,
-          caller: this.initialCaller,
-          env: this.env,
-          storage: this.storage,
-          ...this.input,
-        } satisfies ActorKitInputProps;
-        this.actor = createActor(machine, { input } as any);
+        this.#log("debug", "Creating new actor");
+        this.actor = createActor(machine, {
+          input: this.#getActorInput(),
+          ...(options?.persisted && { clock: this.#createDurableClock() }),
+        } as any);
 
         if (options?.persisted) {
-          console.debug(
-            `[${this.actorId}] Setting up persistence for new actor`
-          );
+          this.#log("debug", "Setting up persistence for new actor");
           this.#setupStatePersistence(this.actor);
         }
+        this.#setupActorSubscribers(this.actor);
+        this.#setupStatusHandling(this.actor);
 
         this.actor.start();
-        console.debug(`[${this.actorId}] New actor started`);
+        this.#log("debug", "New actor started");
       }
       return this.actor;
     }
 
+    #getActorInput(env = this.env, storage = this.storage) {
+      assert(this.actorId, "actorId is not set");
+      assert(this.actorType, "actorType is not set");
+      assert(this.input, "input is not set");
+      assert(this.initialCaller, "initialCaller is not set");
+
+      return {
+        id: this.actorId,
+        caller: this.initialCaller,
+        env,
+        storage,
+        ...this.input,
+      } satisfies ActorKitInputProps;
+    }
+
     #subscribeSocketToActor(ws: WebSocket) {
       try {
         const attachment = WebSocketAttachmentSchema.parse(
@@ -221,25 +531,85 @@ export const createMachineServer = <
 
         // Send initial state update
         this.#sendStateUpdate(ws);
+        if (
+          (this.actor?.getSnapshot() as AnyMachineSnapshot | undefined)
+            ?.status === "done"
+        ) {
+          this.#sendDone(ws);
+        }
 
         // Set up subscription for this WebSocket
-        const sub = this.actor!.subscribe((snapshot) => {
-          this.#sendStateUpdate(ws);
+        const sub = this.actor!.subscribe({
+          next: () => this.#sendStateUpdate(ws),
+          error: () => {},
         });
         this.subscriptions.set(ws, sub);
       } catch (error) {
-        console.error("Failed to subscribe WebSocket to actor:", error);
+        this.#log("error", "Failed to subscribe WebSocket to actor", {
+          error,
+        });
         // Optionally, handle the error (e.g., close the WebSocket)
       }
     }
 
+    /**
+     * Queues a state update for the WebSocket. Updates are sent one at a time
+     * so patches always build on the previously sent snapshot.
+     * @private
+     */
     #sendStateUpdate(ws: WebSocket) {
-      assert(this.actor, "actor is not running");
+      this.stateUpdateQueue = this.stateUpdateQueue
+        .then(() => this.#flushStateUpdate(ws))
+        .catch((error) => {
+          this.#log("error", "Failed to send state update", {
+            callerId: this.attachments.get(ws)?.caller.id,
+            error,
+          });
+        });
+    }
+
+    async #flushStateUpdate(ws: WebSocket) {
       const attachment = this.attachments.get(ws);
-      assert(attachment, "Attachment missing for WebSocket");
+      if (!attachment) {
+        // The socket closed while the update was queued
+        return;
+      }
+
+      const update = await this.#createStateUpdate(
+        attachment.caller,
+        attachment.lastSentChecksum
+      );
+      if (update) {
+        ws.send(JSON.stringify(update.message));
+        attachment.lastSentChecksum = update.checksum;
+        ws.serializeAttachment(attachment);
+      }
+    }
 
+    /**
+     * Builds the message that brings a caller from the snapshot it was last
+     * sent to the current one: a patch when that snapshot is still cached,
+     * otherwise the full caller snapshot.
+     * @returns The message and the checksum it brings the caller to, or
+     * undefined when the caller is already up to date.
+     * @private
+     */
+    async #createStateUpdate(
+      caller: Caller,
+      lastSentChecksum: string | undefined
+    ): Promise<
+      | {
+          message: Extract<
+            ActorKitEmittedEvent<TMachine, TCallerSnapshot>,
+            { type: "patch" | "snapshot" }
+          >;
+          checksum: string;
+        }
+      | undefined
+    > {
+      assert(this.actor, "actor is not running");
       const fullSnapshot = this.actor.getSnapshot();
-      const currentChecksum = this.#calculateChecksum(fullSnapshot);
+      const currentChecksum = await this.#calculateChecksum(fullSnapshot);
 
       // Store snapshot in cache with timestamp
       this.snapshotCache.set(currentChecksum, {
@@ -254,270 +624,1779 @@ export const createMachineServer = <
       this.currentChecksum = currentChecksum;
 
       // Only send updates if the checksum has changed
-      if (attachment.lastSentChecksum !== currentChecksum) {
-        const nextSnapshot = this.#createCallerSnapshot(
-          fullSnapshot,
-          attachment.caller.id
-        );
-        let lastSnapshot = {};
-        if (attachment.lastSentChecksum) {
-          const cachedData = this.snapshotCache.get(
-            attachment.lastSentChecksum
-          );
-          if (cachedData) {
-            lastSnapshot = this.#createCallerSnapshot(
-              cachedData.snapshot,
-              attachment.caller.id
-            );
-          }
-        }
+      if (lastSentChecksum === currentChecksum) {
+        return undefined;
+      }
 
-        const operations = compare(lastSnapshot, nextSnapshot);
+      const nextSnapshot = this.#createCallerSnapshot(fullSnapshot, caller);
+      const cachedData = lastSentChecksum
+        ? this.snapshotCache.get(lastSentChecksum)
+        : undefined;
 
-        if (operations.length) {
-          ws.send(JSON.stringify({ operations, checksum: currentChecksum }));
-          attachment.lastSentChecksum = currentChecksum;
-          ws.serializeAttachment(attachment);
+      if (cachedData) {
+        const lastSnapshot = this.#createCallerSnapshot(
+          cachedData.snapshot,
+          caller
+        );
+        const operations = compare(lastSnapshot, nextSnapshot);
+        if (!operations.length) {
+          return undefined;
         }
+        return {
+          message: {
+            type: "patch",
+            operations,
+            checksum: currentChecksum,
+            callerChecksum: await createChecksum(nextSnapshot),
+          },
+          checksum: currentChecksum,
+        };
       }
+
+      // Without the snapshot the caller has, a patch could leave stale
+      // keys behind, so replace its state entirely
+      return {
+        message: {
+          type: "snapshot",
+          snapshot: nextSnapshot,
+          checksum: currentChecksum,
+          callerChecksum: await createChecksum(nextSnapshot),
+        },
+        checksum: currentChecksum,
+      };
     }
 
     /**
-     * Sets up state persistence for the actor if the persisted option is enabled.
+     * Reacts to the machine reaching a final state: clients are told once
+     * their last state update is sent, and cleanup is scheduled when the
+     * `destroyAfterDone` option is set. Errors that stop the machine are
+     * handed to `#handleActorError`. The actor's other observers pass a
+     * no-op error handler, since XState rethrows the error as uncaught when
+     * any observer lacks one.
      * @private
      */
-    #setupStatePersistence(actor: Actor<TMachine>) {
-      console.debug(`[${this.actorId}] Setting up state persistence`);
-      actor.subscribe((state) => {
-        const fullSnapshot = actor.getSnapshot();
-        if (fullSnapshot) {
-          this.#persistSnapshot(fullSnapshot);
-        }
+    #setupStatusHandling(actor: Actor<TMachine>) {
+      let done = false;
+      actor.subscribe({
+        next: (snapshot) => {
+          if ((snapshot as AnyMachineSnapshot).status !== "done" || done) {
+            return;
+          }
+          done = true;
+          for (const ws of this.attachments.keys()) {
+            this.#sendStateUpdate(ws);
+            this.#sendDone(ws);
+          }
+          if (options?.destroyAfterDone !== undefined) {
+            this.#scheduleDestroy(Date.now() + options.destroyAfterDone);
+          }
+        },
+        error: (error) => this.#handleActorError(actor, error),
       });
     }
 
     /**
-     * Persists the given snapshot if it's different from the last persisted snapshot.
+     * Reports an error that stopped the machine to the `onError` hook and
+     * connected clients, then applies the restart policy. Incoming events
+     * are held until the restarted actor is running.
      * @private
      */
-    async #persistSnapshot(snapshot: SnapshotFrom<TMachine>) {
+    #handleActorError(actor: Actor<TMachine>, error: unknown) {
+      if (actor !== this.actor) {
+        return;
+      }
+      assert(this.actorType, "actorType is not set");
+      assert(this.actorId, "actorId is not set");
+      const restartPolicy = options?.restartPolicy ?? "halt";
+      this.#log("error", "Actor stopped with an error", { error });
       try {
-        if (
-          !this.lastPersistedSnapshot ||
-          compare(this.lastPersistedSnapshot, snapshot).length > 0
-        ) {
-          console.debug(`[${this.actorId}] Persisting new snapshot`);
-          await this.storage.put(
-            PERSISTED_SNAPSHOT_KEY,
-            JSON.stringify(snapshot)
-          );
-          this.lastPersistedSnapshot = snapshot;
-        } else {
-          console.debug(
-            `[${this.actorId}] No changes in snapshot, skipping persistence`
-          );
+        options?.onError?.(error, {
+          actorType: this.actorType,
+          actorId: this.actorId,
+          restartPolicy,
+        });
+      } catch (hookError) {
+        this.#log("error", "Error in onError hook", { error: hookError });
+      }
+
+      const halt = restartPolicy === "halt" || this.recovering;
+      for (const ws of this.attachments.keys()) {
+        this.#sendError(ws, {
+          code: "ACTOR_ERROR",
+          message: halt
+            ? "Actor stopped with an error"
+            : "Actor stopped with an error and is restarting",
+        });
+      }
+      if (halt) {
+        return;
+      }
+      this.state
+        .blockConcurrencyWhile(() => this.#restartActor(restartPolicy))
+        .catch((restartError) => {
+          this.#log("error", "Error restarting actor", {
+            error: restartError,
+          });
+        });
+    }
+
+    /**
+     * Replaces the failed actor according to the restart policy and
+     * resubscribes connected WebSockets. Unlike `reset()`, this keeps the
+     * event log and any scheduled destruction. An actor restored from its
+     * persisted snapshot gets the failed actor's delayed events, which the
+     * alarm delivers.
+     * @private
+     */
+    async #restartActor(restartPolicy: Exclude<RestartPolicy, "halt">) {
+      const fromInitial = restartPolicy === "initial" || !options?.persisted;
+
+      clearTimeout(this.persistTimeout);
+      this.persistTimeout = undefined;
+      await this.persistQueue;
+      const persistedSnapshot = fromInitial
+        ? null
+        : await this.loadPersistedSnapshot();
+
+      this.#stopActor();
+      this.recovering = true;
+      if (persistedSnapshot) {
+        await this.#restoreActor(persistedSnapshot);
+      } else {
+        if (options?.persisted) {
+          // Otherwise the old snapshot is restored when the Durable Object
+          // restarts, and the failed actor's delayed events are delivered
+          await this.#deletePersistedSnapshot();
+          await this.#deleteScheduledEvents();
         }
-      } catch (error) {
-        console.error(`[${this.actorId}] Error persisting snapshot:`, error);
+        this.#ensureActorRunning();
+      }
+      if (!this.actor) {
+        return;
       }
+      for (const ws of this.state.getWebSockets()) {
+        this.#subscribeSocketToActor(ws);
+      }
+      await this.#scheduleNextAlarm();
     }
 
     /**
-     * Handles incoming HTTP requests and sets up WebSocket connections.
+     * Checks whether the actor can take events, which it can't before it
+     * has been spawned, or after its machine stopped with an error until it
+     * has been restarted.
+     * @returns The error to report if the actor can't take events.
+     * @private
      */
-    async fetch(request: Request): Promise<Response> {
-      const actor = this.#ensureActorRunning();
-      assert(this.actorType, "actorType is not set");
-      assert(this.actorId, "actorId is not set");
+    #checkActorError():
+      | { code: ActorKitErrorCode; message: string }
+      | undefined {
+      if (!this.actorId) {
+        return { code: "NOT_SPAWNED", message: ACTOR_NOT_SPAWNED_MESSAGE };
+      }
+      const snapshot = this.actor?.getSnapshot() as
+        | AnyMachineSnapshot
+        | undefined;
+      if (snapshot && snapshot.status !== "error") {
+        return undefined;
+      }
+      return { code: "ACTOR_ERROR", message: "Actor stopped with an error" };
+    }
 
-      const webSocketPair = new WebSocketPair();
-      const [client, server] = Object.values(webSocketPair);
+    /**
+     * Queues the `done` message behind any pending state update.
+     * @private
+     */
+    #sendDone(ws: WebSocket) {
+      this.stateUpdateQueue = this.stateUpdateQueue
+        .then(() => {
+          if (this.attachments.has(ws)) {
+            ws.send(
+              JSON.stringify({
+                type: "done",
+              } satisfies ActorKitEmittedEvent<TMachine>)
+            );
+          }
+        })
+        .catch((error) => {
+          this.#log("error", "Failed to send done message", {
+            callerId: this.attachments.get(ws)?.caller.id,
+            error,
+          });
+        });
+    }
 
-      let caller: Caller | undefined;
+    async #scheduleDestroy(destroyAt: number) {
       try {
-        caller = await getCallerFromRequest(
-          request,
-          this.actorType,
-          this.actorId,
-          this.env.ACTOR_KIT_SECRET
-        );
-      } catch (error: any) {
-        return new Response(`Error: ${error.message}`, { status: 401 });
+        await this.storage.put(DESTROY_AT_KEY, destroyAt);
+        await this.#scheduleNextAlarm();
+      } catch (error) {
+        this.#log("error", "Error scheduling cleanup", { error });
       }
+    }
 
-      if (!caller) {
-        return new Response("Unauthorized", { status: 401 });
+    /**
+     * Stops the actor and detaches WebSockets from it, cancelling its
+     * delayed events.
+     * @private
+     */
+    #stopActor() {
+      for (const subscription of this.subscriptions.values()) {
+        subscription.unsubscribe();
       }
+      this.subscriptions.clear();
+      this.actor?.stop();
+      this.actor = undefined;
+      this.scheduledTimers.clear();
+      this.processedEvents = [];
+    }
 
-      // Parse the checksum from the request, if provided
-      const url = new URL(request.url);
-      const clientChecksum = url.searchParams.get("checksum");
-
-      this.state.acceptWebSocket(server);
-      const initialAttachment = {
-        caller,
-        lastSentChecksum: clientChecksum ?? undefined,
-      };
-      server.serializeAttachment(initialAttachment);
+    /**
+     * Deletes the persisted snapshot with all of its chunks and patches,
+     * once any write in progress has finished.
+     * @private
+     */
+    async #deletePersistedSnapshot() {
+      clearTimeout(this.persistTimeout);
+      this.persistTimeout = undefined;
+      await this.persistQueue;
+
+      const keys = [
+        PERSISTED_SNAPSHOT_KEY,
+        PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY,
+        PERSISTED_SNAPSHOT_VERSION_KEY,
+      ];
+      for (let i = 0; i < this.persistedChunkCount; i++) {
+        keys.push(getChunkKey(i));
+      }
+      for (let i = 0; i < this.persistedPatchCount; i++) {
+        keys.push(getPatchKey(i));
+      }
+      await Promise.all(
+        batchKeys(keys).map((batch) => this.storage.delete(batch))
+      );
 
-      // Subscribe the new WebSocket to the actor
-      this.#subscribeSocketToActor(server);
+      this.lastPersistedSnapshot = null;
+      this.persistedChunkCount = 0;
+      this.persistedPatchCount = 0;
+      this.persistedSnapshotVersion = 0;
+    }
 
-      return new Response(null, {
-        status: 101,
-        webSocket: client,
+    /**
+     * Sends subscribed actors updates whenever the actor's snapshot changes.
+     * @private
+     */
+    #setupActorSubscribers(actor: Actor<TMachine>) {
+      actor.subscribe({
+        next: () => {
+          for (const subscriber of this.actorSubscribers.values()) {
+            this.#sendActorSubscriberUpdate(subscriber);
+          }
+        },
+        error: () => {},
       });
     }
 
     /**
-     * Handles incoming WebSocket messages.
+     * Queues an update for a subscribed actor. Like WebSocket updates, they
+     * are sent one at a time so patches build on the previously sent snapshot.
+     * @private
      */
-    async webSocketMessage(ws: WebSocket, message: ArrayBuffer | string) {
-      const attachment = this.attachments.get(ws);
-      assert(attachment, "Attachment missing for WebSocket");
+    #sendActorSubscriberUpdate(subscriber: ActorSubscriber) {
+      this.actorSubscriberQueue = this.actorSubscriberQueue
+        .then(async () => {
+          const key = getActorKey(subscriber);
+          if (this.actorSubscribers.get(key) !== subscriber) {
+            // Unsubscribed while the update was queued
+            return;
+          }
+          assert(this.actorType, "actorType is not set");
+          assert(this.actorId, "actorId is not set");
 
-      let event: ClientEventFrom<TMachine> | ServiceEventFrom<TMachine>;
+          const update = await this.#createStateUpdate(
+            this.#getActorCaller(subscriber),
+            subscriber.lastSentChecksum
+          );
+          if (!update) {
+            return;
+          }
 
-      const { caller } = attachment;
-      if (caller.type === "client") {
-        const clientEvent = schemas.clientEvent.parse(
-          JSON.parse(message as string)
-        );
-        event = {
-          ...clientEvent,
-          caller,
-        } as ClientEventFrom<TMachine>;
-      } else if (caller.type === "service") {
-        const serviceEvent = schemas.serviceEvent.parse(
-          JSON.parse(message as string)
-        );
-        event = {
-          ...serviceEvent,
-          caller,
-        } as ServiceEventFrom<TMachine>;
-      } else {
-        throw new Error(`Unknown caller type: ${caller.type}`);
-      }
+          await getActorStub(
+            this.env,
+            subscriber.actorType,
+            subscriber.actorId
+          ).receiveActorUpdate(
+            { actorType: this.actorType, actorId: this.actorId },
+            update.message as ActorSnapshotUpdate
+          );
+          subscriber.lastSentChecksum = update.checksum;
+          await this.storage.put(
+            `${ACTOR_SUBSCRIBER_KEY_PREFIX}${key}`,
+            subscriber
+          );
+        })
+        .catch((error) => {
+          this.#log("error", "Failed to send update to subscribed actor", {
+            subscriber: getActorKey(subscriber),
+            error,
+          });
+        });
+    }
 
-      this.send(event);
+    /**
+     * The system caller another actor reads and subscribes to snapshots as.
+     * @private
+     */
+    #getActorCaller({ actorType, actorId }: ActorIdentity): Caller {
+      return { type: "system", id: actorId, actorType };
     }
 
     /**
-     * Handles WebSocket errors.
+     * Sets up state persistence for the actor if the persisted option is enabled.
+     * @private
      */
-    async webSocketError(ws: WebSocket, error: Error) {
-      console.error(
-        "[MachineServerImpl] WebSocket error:",
-        error.message,
-        error.stack
-      );
+    #setupStatePersistence(actor: Actor<TMachine>) {
+      this.#log("debug", "Setting up state persistence");
+      actor.subscribe({
+        next: () => this.#schedulePersist(),
+        error: () => {},
+      });
     }
 
     /**
-     * Handles WebSocket closure.
+     * Persists the latest snapshot, debounced by `persistence.debounceMs`.
+     * Writes are queued so they reach storage in order.
+     * @private
      */
-    async webSocketClose(
-      ws: WebSocket,
-      code: number,
-      reason: string,
-      wasClean: boolean
-    ) {
-      ws.close(code, "Durable Object is closing WebSocket");
-      // Remove the subscription for the socket
-      const subscription = this.subscriptions.get(ws);
-      if (subscription) {
-        subscription.unsubscribe();
-        this.subscriptions.delete(ws);
+    #schedulePersist() {
+      const debounceMs = options?.persistence?.debounceMs ?? 0;
+      const persist = () => {
+        this.persistTimeout = undefined;
+        this.persistQueue = this.persistQueue.then(() =>
+          this.#persistSnapshot()
+        );
+      };
+
+      if (debounceMs <= 0) {
+        persist();
+        return;
       }
-      // Remove the attachment for the socket
-      this.attachments.delete(ws);
+      clearTimeout(this.persistTimeout);
+      this.persistTimeout = setTimeout(persist, debounceMs);
     }
 
     /**
-     * Sends an event to the actor.
+     * Persists the current snapshot if it's different from the last persisted
+     * snapshot. Changes are appended as a patch unless it's time to compact
+     * or the patch is too large, in which case the full snapshot is written.
+     * @private
      */
-    send(event: ClientEventFrom<TMachine> | ServiceEventFrom<TMachine>): void {
-      assert(this.actor, "Actor is not running");
-      this.actor.send({
-        ...event,
+    async #persistSnapshot() {
+      if (!this.actor) {
+        return;
+      }
+
+      // Keep the last good snapshot so the actor can be restored from it
+      if ((this.actor.getSnapshot() as AnyMachineSnapshot).status === "error") {
+        return;
+      }
+
+      try {
+        // XState's persisted form includes invoked and spawned child actors
+        // and history, which the live snapshot doesn't serialize
+        const snapshotString = JSON.stringify(
+          this.actor.getPersistedSnapshot()
+        );
+        const snapshot = JSON.parse(snapshotString);
+        const maxChunkSize =
+          options?.persistence?.maxChunkSize ??
+          DEFAULT_PERSISTENCE_MAX_CHUNK_SIZE;
+        const compactAfterPatches =
+          options?.persistence?.compactAfterPatches ??
+          DEFAULT_PERSISTENCE_COMPACT_AFTER_PATCHES;
+
+        if (
+          !this.lastPersistedSnapshot ||
+          this.persistedPatchCount >= compactAfterPatches
+        ) {
+          this.#log("debug", "Persisting full snapshot");
+          await this.#writeFullSnapshot(snapshotString, maxChunkSize);
+        } else {
+          const operations = compare(this.lastPersistedSnapshot, snapshot);
+          if (!operations.length) {
+            this.#log("debug", "No changes in snapshot, skipping persistence");
+            return;
+          }
+
+          // Measured once encrypted, since that's what's stored
+          const patchValue = await this.#encrypt(JSON.stringify(operations));
+          if (patchValue.length > maxChunkSize) {
+            this.#log("debug", "Persisting full snapshot");
+            await this.#writeFullSnapshot(snapshotString, maxChunkSize);
+          } else {
+            this.#log("debug", "Persisting snapshot patch");
+            await this.storage.put(
+              getPatchKey(this.persistedPatchCount),
+              patchValue
+            );
+            this.persistedPatchCount++;
+          }
+        }
+        this.lastPersistedSnapshot = snapshot;
+      } catch (error) {
+        this.#log("error", "Error persisting snapshot", { error });
+      }
+    }
+
+    /**
+     * Replaces the stored base snapshot, splitting it into chunks when it
+     * exceeds `maxChunkSize`, and drops patches and chunks it supersedes.
+     * @private
+     */
+    async #writeFullSnapshot(snapshotString: string, maxChunkSize: number) {
+      const snapshotVersion = getSnapshotVersion(options?.migrations);
+      const entries: Record<string, unknown> = {
+        [PERSISTED_SNAPSHOT_VERSION_KEY]: snapshotVersion,
+      };
+      const staleKeys: string[] = [];
+
+      const chunks = await this.#encryptChunks(snapshotString, maxChunkSize);
+      const chunkCount = chunks.length;
+      if (chunkCount <= 1) {
+        entries[PERSISTED_SNAPSHOT_KEY] = chunks[0];
+        entries[PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY] = 0;
+      } else {
+        chunks.forEach((chunk, i) => {
+          entries[getChunkKey(i)] = chunk;
+        });
+        entries[PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY] = chunkCount;
+        staleKeys.push(PERSISTED_SNAPSHOT_KEY);
+      }
+      const storedChunkCount = chunkCount > 1 ? chunkCount : 0;
+      for (let i = storedChunkCount; i < this.persistedChunkCount; i++) {
+        staleKeys.push(getChunkKey(i));
+      }
+      for (let i = 0; i < this.persistedPatchCount; i++) {
+        staleKeys.push(getPatchKey(i));
+      }
+
+      // Writes issued without an await in between are committed atomically,
+      // so storage never holds the new base together with stale patches
+      const writes: Promise<unknown>[] = [];
+      for (const keys of batchKeys(Object.keys(entries))) {
+        writes.push(
+          this.storage.put(
+            Object.fromEntries(keys.map((key) => [key, entries[key]]))
+          )
+        );
+      }
+      for (const keys of batchKeys(staleKeys)) {
+        writes.push(this.storage.delete(keys));
+      }
+      await Promise.all(writes);
+
+      this.persistedChunkCount = storedChunkCount;
+      this.persistedPatchCount = 0;
+      this.persistedSnapshotVersion = snapshotVersion;
+    }
+
+    /**
+     * Creates the clock persisted actors use for delayed transitions and
+     * delayed `sendTo`/`raise` events. Each timer is backed by a stored
+     * schedule entry and a Durable Object alarm so it survives eviction.
+     * @private
+     */
+    #createDurableClock(): NonNullable<ActorOptions<TMachine>["clock"]> {
+      return {
+        setTimeout: (callback: () => void, delay: number) => {
+          // XState registers the scheduled event right before asking the clock
+          // for a timer, so the new entry is the one we don't track yet
+          const scheduledEvents =
+            this.actor?.system.getSnapshot()._scheduledEvents ?? {};
+          const id =
+            Object.keys(scheduledEvents).find(
+              (key) => !this.scheduledTimers.has(key)
+            ) ?? crypto.randomUUID();
+          const scheduled = scheduledEvents[id];
+
+          this.scheduledTimers.set(id, callback);
+
+          let event: ScheduledEvent["event"];
+          if (scheduled) {
+            const { env, storage, ...rest } = scheduled.event as AnyEventObject;
+            event = rest as ScheduledEvent["event"];
+          }
+          this.#persistScheduledEvent(id, {
+            event,
+            dueAt: Date.now() + delay,
+            targetId:
+              scheduled && scheduled.target !== this.actor
+                ? scheduled.target.id
+                : undefined,
+          });
+          return id;
+        },
+        clearTimeout: (id: string) => {
+          this.scheduledTimers.delete(id);
+          // An actor that errored cancels all of its timers. Their stored
+          // entries are kept for the actor restored from the last persisted
+          // snapshot, since XState doesn't reschedule them on restore
+          if (
+            (this.actor?.getSnapshot() as AnyMachineSnapshot | undefined)
+              ?.status === "error"
+          ) {
+            return;
+          }
+          this.#deleteScheduledEvent(id);
+        },
+      };
+    }
+
+    async #persistScheduledEvent(id: string, scheduledEvent: ScheduledEvent) {
+      try {
+        await this.storage.put(
+          `${SCHEDULED_EVENT_KEY_PREFIX}${id}`,
+          await this.#encrypt(JSON.stringify(scheduledEvent))
+        );
+        await this.#scheduleNextAlarm();
+      } catch (error) {
+        this.#log("error", "Error persisting scheduled event", { error });
+      }
+    }
+
+    async #deleteScheduledEvent(id: string) {
+      try {
+        await this.storage.delete(`${SCHEDULED_EVENT_KEY_PREFIX}${id}`);
+        await this.#scheduleNextAlarm();
+      } catch (error) {
+        this.#log("error", "Error deleting scheduled event", { error });
+      }
+    }
+
+    /**
+     * Deletes every stored delayed event, for when the actor starts over
+     * without the actor that scheduled them.
+     * @private
+     */
+    async #deleteScheduledEvents() {
+      const entries = await this.storage.list({
+        prefix: SCHEDULED_EVENT_KEY_PREFIX,
+      });
+      await Promise.all(
+        batchKeys([...entries.keys()]).map((keys) => this.storage.delete(keys))
+      );
+    }
+
+    async #loadScheduledEvents() {
+      const entries = await this.storage.list<string>({
+        prefix: SCHEDULED_EVENT_KEY_PREFIX,
+      });
+      const scheduledEvents = new Map<string, ScheduledEvent>();
+      for (const [key, value] of entries) {
+        scheduledEvents.set(
+          key.slice(SCHEDULED_EVENT_KEY_PREFIX.length),
+          ScheduledEventSchema.parse(JSON.parse(await this.#decrypt(value)))
+        );
+      }
+      return scheduledEvents;
+    }
+
+    /**
+     * Points the Durable Object alarm at the earliest pending deadline.
+     * @private
+     */
+    async #scheduleNextAlarm() {
+      const scheduledEvents = await this.#loadScheduledEvents();
+      const deadlines = [...scheduledEvents.values()].map(({ dueAt }) => dueAt);
+      const destroyAt = await this.storage.get<number>(DESTROY_AT_KEY);
+      if (destroyAt !== undefined) {
+        deadlines.push(destroyAt);
+      }
+      const idleAt = this.#getIdleAt();
+      if (idleAt !== undefined) {
+        deadlines.push(idleAt);
+      }
+      for (const { disconnectAt } of this.pendingDisconnects.values()) {
+        deadlines.push(disconnectAt);
+      }
+      const nextAlarm = deadlines.length ? Math.min(...deadlines) : undefined;
+
+      if (nextAlarm === undefined) {
+        await this.storage.deleteAlarm();
+      } else if ((await this.storage.getAlarm()) !== nextAlarm) {
+        await this.storage.setAlarm(nextAlarm);
+      }
+    }
+
+    /**
+     * Delivers scheduled events and DISCONNECT events that are due, and
+     * destroys the actor once its cleanup time has come or it has been idle
+     * for `idleTimeout`.
+     */
+    async alarm() {
+      const now = Date.now();
+      const destroyAt = await this.storage.get<number>(DESTROY_AT_KEY);
+      if (destroyAt !== undefined && destroyAt <= now) {
+        await this.destroy("Actor finished");
+        return;
+      }
+      await this.#deliverPendingDisconnects(now);
+      const idleAt = this.#getIdleAt();
+      if (idleAt !== undefined && idleAt <= now && this.#expireIdleActor()) {
+        await this.destroy("Actor expired");
+        return;
+      }
+
+      const scheduledEvents = await this.#loadScheduledEvents();
+      for (const [id, scheduledEvent] of scheduledEvents) {
+        if (scheduledEvent.dueAt > now) {
+          continue;
+        }
+        await this.storage.delete(`${SCHEDULED_EVENT_KEY_PREFIX}${id}`);
+        this.#deliverScheduledEvent(id, scheduledEvent);
+      }
+      await this.#scheduleNextAlarm();
+    }
+
+    /**
+     * Asks the machine whether an idle actor may be destroyed. Open
+     * WebSockets, or the machine handling `IDLE_TIMEOUT`, keep it alive
+     * for another `idleTimeout`.
+     * @returns Whether the actor should be destroyed.
+     * @private
+     */
+    #expireIdleActor(): boolean {
+      assert(this.lastActivity !== undefined, "lastActivity is not set");
+      if (this.state.getWebSockets().length > 0) {
+        this.#recordActivity();
+        return false;
+      }
+      if (!this.actor) {
+        return true;
+      }
+      const refused = this.#sendSystemEvent({
+        type: "IDLE_TIMEOUT",
+        lastActivity: this.lastActivity,
+      });
+      if (refused) {
+        this.#recordActivity();
+      }
+      return !refused;
+    }
+
+    /**
+     * Returns when the actor becomes idle, if `idleTimeout` is set.
+     * @private
+     */
+    #getIdleAt() {
+      if (
+        options?.idleTimeout === undefined ||
+        this.lastActivity === undefined
+      ) {
+        return undefined;
+      }
+      return this.lastActivity + options.idleTimeout;
+    }
+
+    /**
+     * Moves the idle deadline forward after an event or connection change.
+     * The alarm only needs scheduling for the first activity, since an
+     * earlier alarm reschedules itself.
+     * @private
+     */
+    #recordActivity() {
+      if (options?.idleTimeout === undefined) {
+        return;
+      }
+      const isFirstActivity = this.lastActivity === undefined;
+      this.lastActivity = Date.now();
+      this.storage
+        .put(LAST_ACTIVITY_KEY, this.lastActivity)
+        .then(() => {
+          if (isFirstActivity) {
+            return this.#scheduleNextAlarm();
+          }
+        })
+        .catch((error) => {
+          this.#log("error", "Error recording activity", { error });
+        });
+    }
+
+    /**
+     * Encrypts a value for storage with the current key when the
+     * `encryption` option is set.
+     * @private
+     */
+    async #encrypt(value: string): Promise<string> {
+      if (!options?.encryption) {
+        return value;
+      }
+      const { currentKeyId } = options.encryption;
+      const key = (await this.#getEncryptionKeys()).get(currentKeyId);
+      assert(key, `Encryption key ${currentKeyId} is not configured`);
+      return encryptValue(value, currentKeyId, key);
+    }
+
+    /**
+     * Splits a value into chunks that are each at most `maxChunkSize`
+     * characters once encrypted, and encrypts them. Encrypted text can be
+     * up to four times as long as its plaintext, so chunks are shrunk until
+     * their encrypted form fits.
+     * @private
+     */
+    async #encryptChunks(
+      value: string,
+      maxChunkSize: number
+    ): Promise<string[]> {
+      const chunks: string[] = [];
+      let start = 0;
+      while (start < value.length) {
+        let size = maxChunkSize;
+        for (;;) {
+          let end = Math.min(start + size, value.length);
+          // Splitting a surrogate pair would corrupt it once UTF-8 encoded
+          if (end < value.length && /[\uD800-\uDBFF]/.test(value[end - 1])) {
+            end--;
+          }
+          assert(end > start, "persistence.maxChunkSize is too small");
+          const chunk = await this.#encrypt(value.slice(start, end));
+          if (chunk.length <= maxChunkSize) {
+            chunks.push(chunk);
+            start = end;
+            break;
+          }
+          size = Math.min(
+            end - start - 1,
+            Math.floor(((end - start) * maxChunkSize) / chunk.length)
+          );
+        }
+      }
+      return chunks;
+    }
+
+    /**
+     * Decrypts a stored value written by `#encrypt`. Plaintext values, such
+     * as those written before encryption was enabled, pass through.
+     * @private
+     */
+    async #decrypt(value: string): Promise<string> {
+      if (!options?.encryption) {
+        return value;
+      }
+      return decryptValue(value, await this.#getEncryptionKeys());
+    }
+
+    #getEncryptionKeys() {
+      assert(options?.encryption, "encryption is not enabled");
+      this.encryptionKeys ??= Promise.all(
+        Object.entries(options.encryption.keys(this.env)).map(
+          async ([keyId, key]) =>
+            [keyId, await importEncryptionKey(key)] as const
+        )
+      ).then((keys) => new Map(keys));
+      return this.encryptionKeys;
+    }
+
+    #deliverScheduledEvent(id: string, scheduledEvent: ScheduledEvent) {
+      const callback = this.scheduledTimers.get(id);
+      if (callback) {
+        this.scheduledTimers.delete(id);
+        callback();
+        if (scheduledEvent.event && !scheduledEvent.targetId) {
+          this.#appendToEventLog(scheduledEvent.event);
+        }
+        return;
+      }
+
+      // The timer was lost with the previous instance, so send the stored
+      // event straight to its target
+      if (!this.actor || !scheduledEvent.event) {
+        return;
+      }
+      if (scheduledEvent.targetId) {
+        const snapshot = this.actor.getSnapshot() as AnyMachineSnapshot;
+        snapshot.children[scheduledEvent.targetId]?.send(scheduledEvent.event);
+      } else {
+        this.actor.send({
+          ...scheduledEvent.event,
+          env: this.env,
+          storage: this.storage,
+        } as any);
+        this.#appendToEventLog(scheduledEvent.event);
+      }
+    }
+
+    /**
+     * Handles incoming HTTP requests and sets up WebSocket connections.
+     */
+    async fetch(request: Request): Promise<Response> {
+      if (!this.actorId) {
+        return new Response(ACTOR_NOT_SPAWNED_MESSAGE, {
+          status: ACTOR_NOT_SPAWNED_STATUS,
+        });
+      }
+      const actor = this.#ensureActorRunning();
+      assert(this.actorType, "actorType is not set");
+      assert(this.actorId, "actorId is not set");
+
+      const webSocketPair = new WebSocketPair();
+      const [client, server] = Object.values(webSocketPair);
+
+      let caller: Caller | undefined;
+      try {
+        caller = await getCallerFromRequest(
+          request,
+          this.actorType,
+          this.actorId,
+          this.env.ACTOR_KIT_SECRET
+        );
+      } catch (error: any) {
+        return new Response(`Error: ${error.message}`, { status: 401 });
+      }
+
+      if (!caller) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      // Parse the checksum from the request, if provided
+      const url = new URL(request.url);
+      const clientChecksum = url.searchParams.get("checksum");
+
+      this.state.acceptWebSocket(server);
+      const initialAttachment = {
+        caller,
+        lastSentChecksum: clientChecksum ?? undefined,
+        requestInfo: getRequestInfo(request),
+      } satisfies WebSocketAttachment;
+      server.serializeAttachment(initialAttachment);
+
+      // Subscribe the new WebSocket to the actor
+      this.#subscribeSocketToActor(server);
+      this.#handleCallerConnected(caller);
+      this.#recordActivity();
+
+      return new Response(null, {
+        status: 101,
+        webSocket: client,
+      });
+    }
+
+    /**
+     * Handles incoming WebSocket messages.
+     */
+    async webSocketMessage(ws: WebSocket, message: ArrayBuffer | string) {
+      const attachment = this.attachments.get(ws);
+      assert(attachment, "Attachment missing for WebSocket");
+
+      let data: unknown;
+      try {
+        data = JSON.parse(
+          typeof message === "string"
+            ? message
+            : new TextDecoder().decode(message)
+        );
+      } catch (error) {
+        this.#sendError(ws, {
+          code: "INVALID_MESSAGE",
+          message: "Message is not valid JSON",
+        });
+        return;
+      }
+
+      // Clients wrap events in an envelope to get an ack or error back
+      let id: string | undefined;
+      const envelope = EventEnvelopeSchema.safeParse(data);
+      if (envelope.success) {
+        id = envelope.data.id;
+        data = envelope.data.event;
+      }
+      const eventType = AnyEventSchema.safeParse(data).data?.type;
+
+      const size =
+        typeof message === "string"
+          ? new TextEncoder().encode(message).byteLength
+          : message.byteLength;
+      const quotaError = this.#checkQuota(attachment.caller, size);
+      if (quotaError) {
+        this.#sendError(ws, { id, eventType, ...quotaError });
+        const violations = (this.socketViolations.get(ws) ?? 0) + 1;
+        this.socketViolations.set(ws, violations);
+        if (violations >= (options?.maxViolations ?? DEFAULT_MAX_VIOLATIONS)) {
+          this.#closeSocket(ws, 1008, "Too many rejected events");
+        }
+        return;
+      }
+      this.socketViolations.delete(ws);
+
+      let event: ClientEventFrom<TMachine> | ServiceEventFrom<TMachine>;
+
+      const { caller, requestInfo } = attachment;
+      if (caller.type === "client") {
+        const result = schemas.clientEvent.safeParse(data);
+        if (!result.success) {
+          this.#sendError(ws, {
+            id,
+            code: "INVALID_EVENT",
+            message: "Event failed validation",
+            eventType,
+            issues: result.error.issues,
+          });
+          return;
+        }
+        event = {
+          ...result.data,
+          caller,
+          requestInfo,
+        } as ClientEventFrom<TMachine>;
+      } else if (caller.type === "service") {
+        const result = schemas.serviceEvent.safeParse(data);
+        if (!result.success) {
+          this.#sendError(ws, {
+            id,
+            code: "INVALID_EVENT",
+            message: "Event failed validation",
+            eventType,
+            issues: result.error.issues,
+          });
+          return;
+        }
+        event = {
+          ...result.data,
+          caller,
+          requestInfo,
+        } as ServiceEventFrom<TMachine>;
+      } else {
+        // Other actors send events through `send`, not WebSockets
+        this.#sendError(ws, {
+          id,
+          code: "FORBIDDEN",
+          message: `${caller.type} callers can't send events over a WebSocket`,
+          eventType,
+        });
+        return;
+      }
+
+      const actorError = this.#checkActorError();
+      if (actorError) {
+        this.#sendError(ws, { id, eventType, ...actorError });
+        return;
+      }
+
+      const policyError = this.#checkPolicy(event);
+      if (policyError) {
+        this.#sendError(ws, { id, eventType, ...policyError });
+        return;
+      }
+
+      const transitioned = this.#sendEvent(event);
+      const eventError = this.#checkActorError();
+      if (eventError) {
+        this.#sendError(ws, { id, eventType, ...eventError });
+        return;
+      }
+
+      if (id) {
+        // Queued behind the state update the event caused, so clients have
+        // applied it by the time the ack arrives
+        const snapshot = this.actor!.getSnapshot();
+        this.stateUpdateQueue = this.stateUpdateQueue
+          .then(async () => {
+            ws.send(
+              JSON.stringify({
+                type: "ack",
+                id,
+                checksum: await this.#calculateChecksum(snapshot),
+                transitioned,
+              } satisfies ActorKitEmittedEvent<TMachine>)
+            );
+          })
+          .catch((error) => {
+            this.#log("error", "Failed to send ack", {
+              callerId: attachment.caller.id,
+              eventType,
+              error,
+            });
+          });
+      }
+    }
+
+    /**
+     * Tells the WebSocket why its event was rejected.
+     * @private
+     */
+    #sendError(
+      ws: WebSocket,
+      error: Omit<
+        Extract<ActorKitEmittedEvent<TMachine>, { type: "error" }>,
+        "type"
+      >
+    ) {
+      ws.send(JSON.stringify({ type: "error", ...error }));
+    }
+
+    /**
+     * Handles WebSocket errors.
+     */
+    async webSocketError(ws: WebSocket, error: Error) {
+      this.#log("error", "WebSocket error", {
+        callerId: this.attachments.get(ws)?.caller.id,
+        error,
+      });
+    }
+
+    /**
+     * Handles WebSocket closure.
+     */
+    async webSocketClose(
+      ws: WebSocket,
+      code: number,
+      reason: string,
+      wasClean: boolean
+    ) {
+      ws.close(code, "Durable Object is closing WebSocket");
+      this.#releaseSocket(ws);
+    }
+
+    /**
+     * Closes a WebSocket from the server side and releases it.
+     * @private
+     */
+    #closeSocket(ws: WebSocket, code: number, reason: string) {
+      ws.close(code, reason);
+      this.#releaseSocket(ws);
+    }
+
+    /**
+     * Stops sending updates to a closed WebSocket and lets the actor know
+     * when its caller has gone.
+     * @private
+     */
+    #releaseSocket(ws: WebSocket) {
+      const attachment = this.attachments.get(ws);
+      // Remove the subscription for the socket
+      const subscription = this.subscriptions.get(ws);
+      if (subscription) {
+        subscription.unsubscribe();
+        this.subscriptions.delete(ws);
+      }
+      // Remove the attachment for the socket
+      this.attachments.delete(ws);
+
+      if (attachment) {
+        this.#handleCallerDisconnected(attachment.caller);
+        this.#recordActivity();
+      }
+    }
+
+    /**
+     * Sends CONNECT when a caller opens its first WebSocket. A reconnect
+     * within the grace period cancels the pending DISCONNECT instead.
+     * @private
+     */
+    #handleCallerConnected(caller: Caller) {
+      const callerKey = this.#getCallerKey(caller);
+      if (this.pendingDisconnects.has(callerKey)) {
+        this.pendingDisconnects.delete(callerKey);
+        this.storage
+          .delete(`${PENDING_DISCONNECT_KEY_PREFIX}${callerKey}`)
+          .then(() => this.#scheduleNextAlarm())
+          .catch((error) => {
+            this.#log("error", "Error cancelling pending disconnect", {
+              callerId: caller.id,
+              error,
+            });
+          });
+        return;
+      }
+
+      if (this.#countCallerConnections(caller) === 1) {
+        this.#sendSystemEvent({ type: "CONNECT", connectingCaller: caller });
+      }
+    }
+
+    /**
+     * Sends DISCONNECT once a caller's last WebSocket has been closed for
+     * longer than the configured grace period. The pending DISCONNECT is
+     * stored and delivered by an alarm, so it survives hibernation.
+     * @private
+     */
+    #handleCallerDisconnected(caller: Caller) {
+      // Nobody is left to tell once the actor has been stopped
+      if (!this.actor || this.#countCallerConnections(caller) > 0) {
+        return;
+      }
+
+      const gracePeriod =
+        options?.disconnectGracePeriod ?? DEFAULT_DISCONNECT_GRACE_PERIOD;
+      if (gracePeriod <= 0) {
+        this.#sendSystemEvent({
+          type: "DISCONNECT",
+          disconnectingCaller: caller,
+        });
+        return;
+      }
+
+      const callerKey = this.#getCallerKey(caller);
+      const pendingDisconnect: PendingDisconnect = {
+        caller,
+        disconnectAt: Date.now() + gracePeriod,
+      };
+      this.pendingDisconnects.set(callerKey, pendingDisconnect);
+      this.storage
+        .put(`${PENDING_DISCONNECT_KEY_PREFIX}${callerKey}`, pendingDisconnect)
+        .then(() => this.#scheduleNextAlarm())
+        .catch((error) => {
+          this.#log("error", "Error storing pending disconnect", {
+            callerId: caller.id,
+            error,
+          });
+        });
+    }
+
+    /**
+     * Sends DISCONNECT for callers whose grace period has run out without
+     * them reconnecting.
+     * @private
+     */
+    async #deliverPendingDisconnects(now: number) {
+      for (const [callerKey, { caller, disconnectAt }] of this
+        .pendingDisconnects) {
+        if (disconnectAt > now) {
+          continue;
+        }
+        this.pendingDisconnects.delete(callerKey);
+        await this.storage.delete(
+          `${PENDING_DISCONNECT_KEY_PREFIX}${callerKey}`
+        );
+        if (this.#countCallerConnections(caller) === 0 && this.actor) {
+          this.#sendSystemEvent({
+            type: "DISCONNECT",
+            disconnectingCaller: caller,
+          });
+        }
+      }
+    }
+
+    /**
+     * Checks an event from a client or service against the configured size
+     * and rate limits, taking a token from the caller's bucket if it passes.
+     * @returns The error to report if the event must be rejected.
+     * @private
+     */
+    #checkQuota(
+      caller: Caller,
+      size: number
+    ): { code: ActorKitErrorCode; message: string } | undefined {
+      if (options?.maxEventSize !== undefined && size > options.maxEventSize) {
+        return {
+          code: "EVENT_TOO_LARGE",
+          message: `Event is ${size} bytes, the limit is ${options.maxEventSize}`,
+        };
+      }
+
+      const limit =
+        caller.type === "system"
+          ? undefined
+          : options?.rateLimit?.[caller.type];
+      if (!limit) {
+        return undefined;
+      }
+
+      const callerKey = this.#getCallerKey(caller);
+      const now = Date.now();
+      const bucket = this.rateLimitBuckets.get(callerKey) ?? {
+        tokens: limit.capacity,
+        updatedAt: now,
+      };
+      bucket.tokens = Math.min(
+        limit.capacity,
+        bucket.tokens +
+          ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond
+      );
+      bucket.updatedAt = now;
+      this.rateLimitBuckets.set(callerKey, bucket);
+
+      if (bucket.tokens < 1) {
+        return {
+          code: "RATE_LIMITED",
+          message: "Too many events, slow down",
+        };
+      }
+      bucket.tokens -= 1;
+      return undefined;
+    }
+
+    /**
+     * Checks an event against the policy registered for its type, if any.
+     * A policy that throws denies the event.
+     * @returns The error to report if the policy denies the event.
+     * @private
+     */
+    #checkPolicy(
+      event: CallerEventFrom<TMachine>
+    ): { code: ActorKitErrorCode; message: string } | undefined {
+      const policy = policies?.[event.type as keyof typeof policies] as
+        | ((args: {
+            caller: Caller;
+            snapshot: SnapshotFrom<TMachine>;
+            event: typeof event;
+          }) => boolean)
+        | undefined;
+      if (!policy) {
+        return undefined;
+      }
+
+      assert(this.actor, "Actor is not running");
+      const { caller } = event;
+      try {
+        if (policy({ caller, snapshot: this.actor.getSnapshot(), event })) {
+          return undefined;
+        }
+      } catch (error) {
+        this.#log("error", "Error in event policy", {
+          callerId: caller.id,
+          eventType: event.type,
+          error,
+        });
+        return {
+          code: "FORBIDDEN",
+          message: `Policy for ${event.type} failed`,
+        };
+      }
+      return {
+        code: "FORBIDDEN",
+        message: `${caller.type} ${caller.id} is not allowed to send ${event.type}`,
+      };
+    }
+
+    #countCallerConnections(caller: Caller) {
+      const callerKey = this.#getCallerKey(caller);
+      let count = 0;
+      for (const attachment of this.attachments.values()) {
+        if (this.#getCallerKey(attachment.caller) === callerKey) {
+          count++;
+        }
+      }
+      return count;
+    }
+
+    #getCallerKey(caller: Caller) {
+      return `${caller.type}-${caller.id}`;
+    }
+
+    /**
+     * Sends a system event to the actor on behalf of the actor itself.
+     * @returns Whether the machine handled the event with a transition.
+     * @private
+     */
+    #sendSystemEvent(
+      event: DistributiveOmit<ActorKitSystemEvent, "caller">
+    ): boolean {
+      assert(this.actor, "Actor is not running");
+      assert(this.actorId, "actorId is not set");
+      const systemEvent = {
+        ...event,
+        caller: {
+          id: this.actorId,
+          type: "system" as const,
+          actorType: this.actorType,
+        },
+      };
+      const actorEvent = {
+        ...systemEvent,
         env: this.env,
         storage: this.storage,
+      } as any;
+      const transitioned = hasEnabledTransition(
+        this.actor.getSnapshot() as AnyMachineSnapshot,
+        actorEvent
+      );
+      this.actor.send(actorEvent);
+      this.#appendToEventLog(systemEvent);
+      return transitioned;
+    }
+
+    /**
+     * Appends a handled event, with the checksum of the snapshot it produced,
+     * to the event log when `eventLog` is enabled.
+     * @private
+     */
+    #appendToEventLog(event: AnyEventObject & { caller?: Caller }) {
+      if (!options?.eventLog || !this.actor) {
+        return;
+      }
+      assert(this.actorId, "actorId is not set");
+
+      const { type, caller, env, storage, ...payload } = event;
+      const snapshot = this.actor.getSnapshot();
+      const index = this.eventLogLength++;
+      const timestamp = Date.now();
+      const entryCaller: Caller = caller ?? {
+        id: this.actorId,
+        type: "system",
+      };
+
+      // Queued so entries and the log length are written in order
+      this.eventLogQueue = this.eventLogQueue
+        .then(async () => {
+          const entry: EventLogEntry = {
+            index,
+            type,
+            payload,
+            caller: entryCaller,
+            timestamp,
+            checksum: await this.#calculateChecksum(snapshot),
+          };
+          await this.storage.put({
+            [getEventLogKey(index)]: await this.#encrypt(JSON.stringify(entry)),
+            [EVENT_LOG_LENGTH_KEY]: index + 1,
+          });
+        })
+        .catch((error) => {
+          this.#log("error", "Error appending to event log", {
+            callerId: entryCaller.id,
+            eventType: type,
+            error,
+          });
+        });
+    }
+
+    /**
+     * Reads entries from the event log, oldest first.
+     */
+    async getEventLog(props?: {
+      from?: number;
+      limit?: number;
+    }): Promise<EventLogEntry[]> {
+      assert(options?.eventLog, "eventLog is not enabled for this actor");
+
+      const entries = await this.storage.list<string>({
+        prefix: EVENT_LOG_KEY_PREFIX,
+        start: getEventLogKey(props?.from ?? 0),
+        limit: props?.limit,
+      });
+      return Promise.all(
+        Array.from(entries.values(), async (value) =>
+          EventLogEntrySchema.parse(JSON.parse(await this.#decrypt(value)))
+        )
+      );
+    }
+
+    /**
+     * Replays the event log into a fresh actor to rebuild the state as of
+     * `toIndex` (the whole log by default). Actions run again while
+     * replaying, but with storage whose writes are discarded and an env
+     * without Durable Object namespaces, so they can't change this actor's
+     * stored data or reach other actors.
+     * @returns The rebuilt snapshot, its checksum and the index of the first
+     * event whose checksum differs from the one recorded, if any.
+     */
+    async replayEvents(props?: { toIndex?: number }): Promise<{
+      snapshot: SnapshotFrom<TMachine>;
+      checksum: string;
+      divergedAt?: number;
+    }> {
+      const entries = await this.getEventLog({
+        limit: props?.toIndex !== undefined ? props.toIndex + 1 : undefined,
+      });
+
+      const env = createReplayEnv(this.env);
+      const storage = createReplayStorage(this.storage);
+      const replayActor = createActor(machine, {
+        input: this.#getActorInput(env, storage),
+      } as any);
+      replayActor.start();
+
+      let divergedAt: number | undefined;
+      for (const entry of entries) {
+        replayActor.send({
+          ...entry.payload,
+          type: entry.type,
+          caller: entry.caller,
+          env,
+          storage,
+        } as any);
+        if (
+          divergedAt === undefined &&
+          (await this.#calculateChecksum(replayActor.getSnapshot())) !==
+            entry.checksum
+        ) {
+          divergedAt = entry.index;
+        }
+      }
+
+      const snapshot = replayActor.getSnapshot();
+      replayActor.stop();
+
+      return {
+        snapshot: JSON.parse(JSON.stringify(snapshot)),
+        checksum: await this.#calculateChecksum(snapshot),
+        divergedAt,
+      };
+    }
+
+    /**
+     * Stops the actor, closes every WebSocket with the given reason and
+     * deletes all of the actor's stored data. Until it is spawned again,
+     * `send` returns `NOT_SPAWNED`, `fetch` responds with a 404 and
+     * `getSnapshot` rejects.
+     */
+    async destroy(reason = "Actor destroyed"): Promise<void> {
+      this.#stopActor();
+      for (const ws of this.state.getWebSockets()) {
+        this.#closeSocket(ws, ACTOR_DESTROYED_CLOSE_CODE, reason);
+      }
+      this.pendingDisconnects.clear();
+
+      clearTimeout(this.persistTimeout);
+      this.persistTimeout = undefined;
+      await Promise.all([
+        this.persistQueue,
+        this.eventLogQueue,
+        this.actorSubscriberQueue,
+      ]);
+      await this.storage.deleteAlarm();
+      await this.storage.deleteAll();
+
+      this.actorType = undefined;
+      this.actorId = undefined;
+      this.initialCaller = undefined;
+      this.input = undefined;
+      this.currentChecksum = null;
+      this.lastPersistedSnapshot = null;
+      this.persistedChunkCount = 0;
+      this.persistedPatchCount = 0;
+      this.persistedSnapshotVersion = 0;
+      this.eventLogLength = 0;
+      this.lastActivity = undefined;
+      this.startupError = undefined;
+      this.snapshotCache.clear();
+      this.actorSubscribers.clear();
+      this.remoteSnapshots.clear();
+      this.rateLimitBuckets.clear();
+    }
+
+    /**
+     * Restarts the actor from its initial state, keeping connected
+     * WebSockets. New input, when given, is validated against
+     * `schemas.inputProps` and replaces the stored input, as long as the
+     * initial context it produces passes the context schemas. The persisted
+     * snapshot, delayed events and event log are cleared. Resetting also
+     * starts an actor whose persisted snapshot was refused.
+     */
+    async reset(input?: Record<string, unknown>): Promise<SpawnResult> {
+      assert(this.actorId, "actorId is not set");
+      if (input) {
+        const inputResult = schemas.inputProps.safeParse(input);
+        if (!inputResult.success) {
+          return { success: false, issues: inputResult.error.issues };
+        }
+        const previousInput = this.input;
+        this.input = inputResult.data as Record<string, unknown>;
+        const issues = this.#validateInitialContext();
+        if (issues.length) {
+          this.input = previousInput;
+          return { success: false, issues };
+        }
+        await this.storage.put(
+          "input",
+          await this.#encrypt(JSON.stringify(this.input))
+        );
+      }
+
+      this.#stopActor();
+      this.startupError = undefined;
+      await this.#deletePersistedSnapshot();
+      // Stopping an actor that errored doesn't cancel its timers
+      await this.#deleteScheduledEvents();
+      await this.storage.delete(DESTROY_AT_KEY);
+      if (options?.eventLog) {
+        await this.eventLogQueue;
+        const entries = await this.storage.list({
+          prefix: EVENT_LOG_KEY_PREFIX,
+        });
+        await Promise.all(
+          batchKeys([...entries.keys()]).map((keys) =>
+            this.storage.delete(keys)
+          )
+        );
+        this.eventLogLength = 0;
+        await this.storage.put(EVENT_LOG_LENGTH_KEY, 0);
+      }
+
+      this.#ensureActorRunning();
+      for (const ws of this.state.getWebSockets()) {
+        this.#subscribeSocketToActor(ws);
+      }
+      this.#recordActivity();
+      await this.#scheduleNextAlarm();
+      return { success: true };
+    }
+
+    /**
+     * Subscribes another actor to this actor's snapshot. It is sent its
+     * current snapshot right away and updates whenever the snapshot changes.
+     */
+    async addSubscriber(subscriber: ActorIdentity): Promise<void> {
+      assert(this.actor, "Actor is not running");
+      const key = getActorKey(subscriber);
+      const entry: ActorSubscriber = {
+        actorType: subscriber.actorType,
+        actorId: subscriber.actorId,
+      };
+      this.actorSubscribers.set(key, entry);
+      await this.storage.put(`${ACTOR_SUBSCRIBER_KEY_PREFIX}${key}`, entry);
+      this.#sendActorSubscriberUpdate(entry);
+    }
+
+    /**
+     * Stops sending snapshot updates to a subscribed actor.
+     */
+    async removeSubscriber(subscriber: ActorIdentity): Promise<void> {
+      const key = getActorKey(subscriber);
+      this.actorSubscribers.delete(key);
+      await this.storage.delete(`${ACTOR_SUBSCRIBER_KEY_PREFIX}${key}`);
+    }
+
+    /**
+     * Receives a snapshot update from an actor this actor subscribed to and
+     * passes the resulting snapshot to the machine as an `ACTOR_SNAPSHOT`
+     * event. Falls back to fetching the full snapshot when a patch can't be
+     * applied, e.g. after this actor restarted.
+     */
+    async receiveActorUpdate(
+      publisher: ActorIdentity,
+      message: ActorSnapshotUpdate
+    ): Promise<void> {
+      if (!this.actor) {
+        return;
+      }
+
+      const key = getActorKey(publisher);
+      let snapshot: Record<string, unknown> | undefined;
+      if (message.type === "snapshot") {
+        snapshot = message.snapshot;
+      } else {
+        const base = this.remoteSnapshots.get(key);
+        if (base) {
+          const patched = applyPatch(
+            structuredClone(base),
+            message.operations,
+            false,
+            false
+          ).newDocument;
+          if ((await createChecksum(patched)) === message.callerChecksum) {
+            snapshot = patched;
+          }
+        }
+      }
+
+      if (!snapshot) {
+        assert(this.actorType, "actorType is not set");
+        assert(this.actorId, "actorId is not set");
+        const result = (await getActorStub(
+          this.env,
+          publisher.actorType,
+          publisher.actorId
+        ).getSnapshot(
+          this.#getActorCaller({
+            actorType: this.actorType,
+            actorId: this.actorId,
+          })
+        )) as { snapshot: Record<string, unknown> };
+        snapshot = result.snapshot;
+      }
+
+      this.remoteSnapshots.set(key, snapshot);
+      this.#sendSystemEvent({
+        type: "ACTOR_SNAPSHOT",
+        actorType: publisher.actorType,
+        actorId: publisher.actorId,
+        snapshot,
       });
     }
 
+    /**
+     * Sends an event to the actor, unless it exceeds the caller's size or
+     * rate limits or a policy denies it. Events from other actors (system
+     * callers) are validated against `schemas.actorEvent` instead of limits.
+     */
+    send(event: CallerEventFrom<TMachine>): SendResult {
+      const { caller, requestInfo, ...payload } = event;
+      if (caller.type === "system") {
+        const result = schemas.actorEvent?.safeParse(payload);
+        if (!result?.success) {
+          return {
+            success: false,
+            code: "INVALID_EVENT",
+            message: result
+              ? `Event failed validation: ${result.error.message}`
+              : "Actor does not accept events from other actors",
+          };
+        }
+      } else {
+        const size = new TextEncoder().encode(
+          JSON.stringify(payload)
+        ).byteLength;
+        const quotaError = this.#checkQuota(caller, size);
+        if (quotaError) {
+          return { success: false, ...quotaError };
+        }
+      }
+
+      const actorError = this.#checkActorError();
+      if (actorError) {
+        return { success: false, ...actorError };
+      }
+
+      const policyError = this.#checkPolicy(event);
+      if (policyError) {
+        return { success: false, ...policyError };
+      }
+
+      this.#sendEvent(event);
+      const eventError = this.#checkActorError();
+      if (eventError) {
+        return { success: false, ...eventError };
+      }
+      return { success: true };
+    }
+
+    /**
+     * Sends an event to the actor.
+     * @returns Whether the event caused a transition, as opposed to being
+     * ignored because no transition handles it or its guards blocked it.
+     * @private
+     */
+    #sendEvent(event: CallerEventFrom<TMachine>): boolean {
+      assert(this.actor, "Actor is not running");
+      const actorEvent = {
+        ...event,
+        env: this.env,
+        storage: this.storage,
+      };
+      const transitioned = hasEnabledTransition(
+        this.actor.getSnapshot() as AnyMachineSnapshot,
+        actorEvent
+      );
+      this.recovering = false;
+      this.actor.send(actorEvent);
+      this.#recordProcessedEvent(event);
+      this.#appendToEventLog(event as AnyEventObject);
+      this.#recordActivity();
+      return transitioned;
+    }
+
+    /**
+     * Keeps a bounded history of handled events and notifies anyone waiting
+     * on them through `waitForEvent`.
+     * @private
+     */
+    #recordProcessedEvent(event: CallerEventFrom<TMachine>) {
+      this.processedEvents.push({ event, handledAt: Date.now() });
+      if (this.processedEvents.length > MAX_PROCESSED_EVENTS) {
+        this.processedEvents.shift();
+      }
+      this.processedEventListeners.forEach((listener) => listener(event));
+    }
+
     /**
      * Retrieves a snapshot of the actor's state for a specific caller.
+     * When `waitForEvent` is given, resolves once a matching event has been
+     * handled, including events handled since `since` (by default, shortly
+     * before this call).
      * @param caller The caller requesting the snapshot.
      * @returns An object containing the caller-specific snapshot and a checksum for the full snapshot.
      */
     async getSnapshot(
       caller: Caller,
       options?: {
-        waitForEvent?: ClientEventFrom<TMachine>;
+        waitForEvent?: EventMatcherFrom<TMachine>;
         waitForState?: StateValueFrom<TMachine>;
+        since?: number;
         timeout?: number;
         errorOnWaitTimeout?: boolean;
       }
     ): Promise<{
       checksum: string;
-      snapshot: CallerSnapshotFrom<TMachine>;
+      snapshot: CallerSnapshotFrom<TMachine, TCallerSnapshot>;
     }> {
-      this.#ensureActorRunning();
+      const actor = this.#ensureActorRunning();
 
-      if (options?.waitForEvent || options?.waitForState) {
-        const timeoutPromise = new Promise((resolve, reject) => {
-          setTimeout(() => {
-            if (options.errorOnWaitTimeout !== false) {
-              reject(new Error("Timeout waiting for event or state"));
-            } else {
-              resolve(this.#getCurrentSnapshot(caller));
-            }
-          }, options.timeout || 5000);
-        });
+      const { waitForEvent, waitForState } = options ?? {};
+      const since =
+        options?.since ?? Date.now() - DEFAULT_WAIT_FOR_EVENT_LOOKBACK;
+      if (!waitForEvent && !waitForState) {
+        return this.#getCurrentSnapshot(caller);
+      }
 
-        const waitPromise: Promise<{
-          checksum: string;
-          snapshot: CallerSnapshotFrom<TMachine>;
-        }> = new Promise((resolve) => {
-          const sub = this.actor!.subscribe((state) => {
-            if (
-              (options.waitForEvent &&
-                this.#matchesEvent(state, options.waitForEvent)) ||
-              (options.waitForState &&
-                this.#matchesState(state, options.waitForState))
-            ) {
-              sub && sub.unsubscribe();
-              resolve(this.#getCurrentSnapshot(caller));
-            }
-          });
-        });
+      return new Promise((resolve, reject) => {
+        let subscription: Subscription | undefined;
 
-        return Promise.race([waitPromise, timeoutPromise]) as Promise<{
-          checksum: string;
-          snapshot: CallerSnapshotFrom<TMachine>;
-        }>;
-      }
+        const cleanup = () => {
+          clearTimeout(timeoutId);
+          subscription?.unsubscribe();
+          this.processedEventListeners.delete(onEvent);
+        };
+
+        const onEvent = (event: CallerEventFrom<TMachine>) => {
+          if (waitForEvent && this.#matchesEvent(event, waitForEvent)) {
+            cleanup();
+            resolve(this.#getCurrentSnapshot(caller));
+          }
+        };
+
+        const timeoutId = setTimeout(() => {
+          cleanup();
+          if (options?.errorOnWaitTimeout !== false) {
+            reject(new Error("Timeout waiting for event or state"));
+          } else {
+            resolve(this.#getCurrentSnapshot(caller));
+          }
+        }, options?.timeout || 5000);
+
+        if (
+          (waitForEvent &&
+            this.processedEvents.some(
+              ({ event, handledAt }) =>
+                handledAt >= since && this.#matchesEvent(event, waitForEvent)
+            )) ||
+          (waitForState &&
+            this.#matchesState(actor.getSnapshot(), waitForState))
+        ) {
+          cleanup();
+          resolve(this.#getCurrentSnapshot(caller));
+          return;
+        }
 
-      // const checksum =
-      return this.#getCurrentSnapshot(caller);
+        if (waitForEvent) {
+          this.processedEventListeners.add(onEvent);
+        }
+        if (waitForState) {
+          subscription = actor.subscribe({
+            next: (state) => {
+              if (this.#matchesState(state, waitForState)) {
+                cleanup();
+                resolve(this.#getCurrentSnapshot(caller));
+              }
+            },
+            error: () => {},
+          });
+        }
+      });
     }
 
-    #getCurrentSnapshot(caller: Caller) {
+    async #getCurrentSnapshot(caller: Caller) {
       const fullSnapshot = this.actor!.getSnapshot();
-      const callerSnapshot = this.#createCallerSnapshot(
-        fullSnapshot,
-        caller.id
-      );
-      const checksum = this.#calculateChecksum(fullSnapshot);
+      const callerSnapshot = this.#createCallerSnapshot(fullSnapshot, caller);
+      const checksum = await this.#calculateChecksum(fullSnapshot);
       return { snapshot: callerSnapshot, checksum };
     }
 
     #matchesEvent(
-      snapshot: SnapshotFrom<TMachine>,
-      event: ClientEventFrom<TMachine>
+      event: CallerEventFrom<TMachine>,
+      matcher: EventMatcherFrom<TMachine>
     ): boolean {
-      // todo implement later
-      return true;
+      return matchesPartial(event, matcher);
     }
 
     #matchesState(
@@ -528,75 +2407,111 @@ export const createMachineServer = <
     }
 
     /**
-     * Calculates a checksum for the given snapshot.
-     * @private
-     */
-    #calculateChecksum(snapshot: SnapshotFrom<TMachine>): string {
-      const snapshotString = JSON.stringify(snapshot);
-      return this.#hashString(snapshotString);
-    }
-
-    /**
-     * Generates a simple hash for a given string.
+     * Calculates a checksum for the given snapshot, memoized per snapshot.
      * @private
      */
-    #hashString(str: string): string {
-      let hash = 0;
-      for (let i = 0; i < str.length; i++) {
-        const char = str.charCodeAt(i);
-        hash = (hash << 5) - hash + char;
-        hash = hash & hash; // Convert to 32-bit integer
+    #calculateChecksum(snapshot: SnapshotFrom<TMachine>): Promise<string> {
+      let checksum = this.checksumCache.get(snapshot);
+      if (!checksum) {
+        checksum = createChecksum(snapshot);
+        this.checksumCache.set(snapshot, checksum);
       }
-      return hash.toString(16); // Convert to hexadecimal
+      return checksum;
     }
 
     /**
-     * Creates a caller-specific snapshot from the full snapshot.
+     * Creates a caller-specific snapshot from the full snapshot, using the
+     * `toCallerSnapshot` option when one is given.
      * @private
      */
     #createCallerSnapshot(
       fullSnapshot: SnapshotFrom<TMachine>,
-      callerId: string
-    ): CallerSnapshotFrom<TMachine> {
+      caller: Caller
+    ): CallerSnapshotFrom<TMachine, TCallerSnapshot> {
+      const groups = this.#getCallerGroups(fullSnapshot, caller);
+      if (options?.toCallerSnapshot) {
+        return options.toCallerSnapshot(fullSnapshot, { ...caller, groups });
+      }
+
       const snap = fullSnapshot as any;
       assert(snap.value, "expected value");
       assert(snap.context.public, "expected public key in context");
       assert(snap.context.private, "expected private key in context");
       return {
         public: snap.context.public,
-        private: snap.context.private[callerId] || {},
+        private: Object.assign(
+          {},
+          ...groups.map((group) => snap.context.groups?.[group]),
+          snap.context.private[caller.id]
+        ),
         value: snap.value,
-      };
+      } as CallerSnapshotFrom<TMachine, TCallerSnapshot>;
+    }
+
+    /**
+     * Combines the groups from the caller's access token with those the
+     * `getCallerGroups` option resolves from the actor's state.
+     * @private
+     */
+    #getCallerGroups(
+      fullSnapshot: SnapshotFrom<TMachine>,
+      caller: Caller
+    ): string[] {
+      const resolved = options?.getCallerGroups?.(fullSnapshot, caller) ?? [];
+      return [...new Set([...(caller.groups ?? []), ...resolved])];
     }
 
     /**
      * Spawns a new actor with the given properties.
+     * The input is validated against `schemas.inputProps` on first spawn,
+     * and the initial context it produces against the context schemas.
      */
     async spawn(props: {
       actorType: string;
       actorId: string;
       caller: Caller;
       input: Record<string, unknown>;
-    }) {
+    }): Promise<SpawnResult> {
       if (!this.actorType && !this.actorId && !this.initialCaller) {
+        const inputResult = schemas.inputProps.safeParse(props.input);
+        if (!inputResult.success) {
+          return { success: false, issues: inputResult.error.issues };
+        }
+        const input = inputResult.data as Record<string, unknown>;
+
+        // Update the instance properties
+        this.actorType = props.actorType;
+        this.actorId = props.actorId;
+        this.initialCaller = props.caller;
+        this.input = input;
+
+        const issues = this.#validateInitialContext();
+        if (issues.length) {
+          this.actorType = undefined;
+          this.actorId = undefined;
+          this.initialCaller = undefined;
+          this.input = undefined;
+          return { success: false, issues };
+        }
+
         // Store actor data in storage
+        const [initialCallerValue, inputValue] = await Promise.all([
+          this.#encrypt(JSON.stringify(props.caller)),
+          this.#encrypt(JSON.stringify(input)),
+        ]);
         await Promise.all([
           this.storage.put("actorType", props.actorType),
           this.storage.put("actorId", props.actorId),
-          this.storage.put("initialCaller", JSON.stringify(props.caller)),
-          this.storage.put("input", JSON.stringify(props.input)),
+          this.storage.put("initialCaller", initialCallerValue),
+          this.storage.put("input", inputValue),
         ]).catch((error) => {
-          console.error("Error storing actor data:", error);
+          this.#log("error", "Error storing actor data", { error });
         });
 
-        // Update the instance properties
-        this.actorType = props.actorType;
-        this.actorId = props.actorId;
-        this.initialCaller = props.caller;
-        this.input = props.input;
-
         this.#ensureActorRunning();
+        this.#recordActivity();
       }
+      return { success: true };
     }
 
     // New method for scheduling snapshot cache cleanup
@@ -636,67 +2551,256 @@ export const createMachineServer = <
 
     // Add this method to load the persisted snapshot
     async loadPersistedSnapshot(): Promise<SnapshotFrom<TMachine> | null> {
-      const snapshotString = await this.storage.get(PERSISTED_SNAPSHOT_KEY);
+      const chunkCount =
+        (await this.storage.get<number>(PERSISTED_SNAPSHOT_CHUNK_COUNT_KEY)) ??
+        0;
+
+      let snapshotString: string | undefined;
+      if (chunkCount > 0) {
+        const chunkKeys = Array.from({ length: chunkCount }, (_, i) =>
+          getChunkKey(i)
+        );
+        const chunks = new Map<string, string>();
+        for (const keys of batchKeys(chunkKeys)) {
+          const batch = await this.storage.get<string>(keys);
+          batch.forEach((value, key) => chunks.set(key, value));
+        }
+        assert(
+          chunkKeys.every((key) => chunks.has(key)),
+          "persisted snapshot is missing chunks"
+        );
+        const decryptedChunks = await Promise.all(
+          chunkKeys.map((key) => this.#decrypt(chunks.get(key)!))
+        );
+        snapshotString = decryptedChunks.join("");
+      } else {
+        const storedSnapshot = await this.storage.get<string>(
+          PERSISTED_SNAPSHOT_KEY
+        );
+        snapshotString =
+          storedSnapshot && (await this.#decrypt(storedSnapshot));
+      }
+
       if (snapshotString) {
-        console.debug(`[${this.actorId}] Loaded persisted snapshot`);
-        return JSON.parse(snapshotString as string);
+        const snapshot = JSON.parse(snapshotString);
+        const patches = await this.storage.list<string>({
+          prefix: PERSISTED_SNAPSHOT_PATCH_KEY_PREFIX,
+        });
+        for (const patch of patches.values()) {
+          applyPatch(
+            snapshot,
+            JSON.parse(await this.#decrypt(patch)) as Operation[]
+          );
+        }
+        this.persistedChunkCount = chunkCount;
+        this.persistedPatchCount = patches.size;
+        this.persistedSnapshotVersion =
+          (await this.storage.get<number>(PERSISTED_SNAPSHOT_VERSION_KEY)) ?? 0;
+        this.#log("debug", "Loaded persisted snapshot", {
+          patchCount: patches.size,
+        });
+        return snapshot;
       }
-      console.debug(`[${this.actorId}] No persisted snapshot found`);
+      this.#log("debug", "No persisted snapshot found");
       return null;
     }
 
-    // Add this method to restore the persisted actor
-    restorePersistedActor(persistedSnapshot: SnapshotFrom<TMachine>) {
-      console.debug(
-        `[${this.actorId}] Restoring persisted actor from `,
-        persistedSnapshot
+    // Restores the actor from XState's persisted snapshot format, which
+    // restarts its child actors from their own persisted snapshots
+    restorePersistedActor(
+      persistedSnapshot: SnapshotFrom<TMachine>
+    ): SpawnResult {
+      this.#log("debug", "Restoring persisted actor");
+      const input = this.#getActorInput() as InputFrom<TMachine>;
+
+      // Patches are diffs against what's in storage, so track the stored
+      // form rather than the migrated one
+      this.lastPersistedSnapshot = JSON.parse(
+        JSON.stringify(persistedSnapshot)
       );
-      assert(this.actorId, "actorId is not set");
-      assert(this.actorType, "actorType is not set");
-      assert(this.initialCaller, "initialCaller is not set");
-      assert(this.input, "input is not set");
-
-      const input = {
-        id: this.actorId,
-        caller: this.initialCaller,
-        storage: this.storage,
-        env: this.env,
-        ...this.input,
-      } as InputFrom<TMachine>;
 
+      const { snapshot: migratedSnapshot, operations } =
+        this.#runMigrations(persistedSnapshot);
       const migrations = xstateMigrate.generateMigrations(
         machine,
-        persistedSnapshot,
+        migratedSnapshot,
         input
       );
-      const restoredSnapshot = xstateMigrate.applyMigrations(
-        persistedSnapshot,
-        migrations
+      const restoredSnapshot = restoreLegacyChildren(
+        machine,
+        xstateMigrate.applyMigrations(migratedSnapshot, migrations)
       );
+      operations.push(...migrations);
+      const issues = this.#validateContext(restoredSnapshot);
+      if (issues.length) {
+        return { success: false, issues };
+      }
+      const upgraded =
+        this.persistedSnapshotVersion !==
+        getSnapshotVersion(options?.migrations);
+      if (upgraded) {
+        // Rewrite the base snapshot so it's stored with the new version
+        this.lastPersistedSnapshot = null;
+      }
 
       this.actor = createActor(machine, {
         snapshot: restoredSnapshot,
         input,
+        ...(options?.persisted && { clock: this.#createDurableClock() }),
       });
 
       if (options?.persisted) {
-        console.debug(
-          `[${this.actorId}] Setting up persistence for restored actor`
-        );
+        this.#log("debug", "Setting up persistence for restored actor");
         this.#setupStatePersistence(this.actor);
       }
+      this.#setupActorSubscribers(this.actor);
+      this.#setupStatusHandling(this.actor);
 
       this.actor.start();
-      console.debug(`[${this.actorId}] Restored actor started`);
+      this.#log("debug", "Restored actor started");
 
-      this.actor.send({
-        type: "RESUME",
-        caller: { id: this.actorId, type: "system" },
-        env: this.env,
-        storage: this.storage,
+      if (operations.length) {
+        this.#sendSystemEvent({ type: "MIGRATE", operations });
+        this.#log("debug", "Sent MIGRATE event to restored actor", {
+          operationCount: operations.length,
+        });
+      }
+      if (upgraded && options?.persisted) {
+        this.#schedulePersist();
+      }
+
+      this.#sendSystemEvent({ type: "RESUME" });
+      this.#log("debug", "Sent RESUME event to restored actor");
+      return { success: true };
+    }
+
+    /**
+     * Restores the actor from a persisted snapshot. A snapshot that fails
+     * the context schemas is quarantined or keeps the actor from starting,
+     * depending on the `invalidSnapshot` option.
+     * @private
+     */
+    async #restoreActor(persistedSnapshot: SnapshotFrom<TMachine>) {
+      const result = this.restorePersistedActor(persistedSnapshot);
+      if (result.success) {
+        return;
+      }
+
+      const message = `Persisted snapshot failed validation: ${formatIssues(
+        result.issues
+      )}`;
+      if ((options?.invalidSnapshot ?? "refuse") === "refuse") {
+        this.#log("error", message);
+        this.startupError = new Error(message);
+        for (const ws of this.state.getWebSockets()) {
+          this.#closeSocket(ws, 1011, "Actor failed to start");
+        }
+        return;
+      }
+
+      this.#log("error", `${message}, starting fresh`);
+      await this.#quarantineSnapshot(persistedSnapshot);
+      this.#ensureActorRunning();
+    }
+
+    /**
+     * Moves a snapshot out of the way under a timestamped backup key, split
+     * across keys like the persisted snapshot, and deletes the persisted
+     * snapshot.
+     * @private
+     */
+    async #quarantineSnapshot(persistedSnapshot: SnapshotFrom<TMachine>) {
+      const snapshotString = JSON.stringify(persistedSnapshot);
+      const maxChunkSize =
+        options?.persistence?.maxChunkSize ??
+        DEFAULT_PERSISTENCE_MAX_CHUNK_SIZE;
+      const backupKey = `${QUARANTINED_SNAPSHOT_KEY_PREFIX}${Date.now()}`;
+      const entries: Record<string, string> = {};
+      (await this.#encryptChunks(snapshotString, maxChunkSize)).forEach(
+        (chunk, i) => {
+          entries[`${backupKey}:${i}`] = chunk;
+        }
+      );
+      for (const keys of batchKeys(Object.keys(entries))) {
+        await this.storage.put(
+          Object.fromEntries(keys.map((key) => [key, entries[key]]))
+        );
+      }
+      await this.#deletePersistedSnapshot();
+      this.#log("debug", "Quarantined snapshot", { backupKey });
+    }
+
+    /**
+     * Validates a snapshot's context against the `publicContext` schema and
+     * each caller's private context against the `privateContext` schema.
+     * @returns The issues found, with paths from the context root.
+     * @private
+     */
+    #validateContext({ context }: AnyMachineSnapshot): z.ZodIssue[] {
+      const issues: z.ZodIssue[] = [];
+      const publicResult = schemas.publicContext?.safeParse(context?.public);
+      if (publicResult && !publicResult.success) {
+        issues.push(
+          ...publicResult.error.issues.map((issue) => ({
+            ...issue,
+            path: ["public", ...issue.path],
+          }))
+        );
+      }
+      if (schemas.privateContext) {
+        for (const [callerId, privateContext] of Object.entries(
+          context?.private ?? {}
+        )) {
+          const privateResult =
+            schemas.privateContext.safeParse(privateContext);
+          if (!privateResult.success) {
+            issues.push(
+              ...privateResult.error.issues.map((issue) => ({
+                ...issue,
+                path: ["private", callerId, ...issue.path],
+              }))
+            );
+          }
+        }
+      }
+      return issues;
+    }
+
+    /**
+     * Validates the context the machine starts with for the current input,
+     * without starting an actor.
+     * @private
+     */
+    #validateInitialContext(): z.ZodIssue[] {
+      if (!schemas.publicContext && !schemas.privateContext) {
+        return [];
+      }
+      const initialActor = createActor(machine, {
+        input: this.#getActorInput(),
       } as any);
-      console.debug(`[${this.actorId}] Sent RESUME event to restored actor`);
+      return this.#validateContext(
+        initialActor.getSnapshot() as AnyMachineSnapshot
+      );
+    }
 
-      this.lastPersistedSnapshot = restoredSnapshot as any;
+    /**
+     * Runs the `migrations` newer than the restored snapshot's version, in
+     * version order.
+     * @returns The migrated snapshot and the JSON patch operations applied.
+     * @private
+     */
+    #runMigrations(persistedSnapshot: SnapshotFrom<TMachine>) {
+      let snapshot = JSON.parse(JSON.stringify(persistedSnapshot));
+      const operations: Operation[] = [];
+      const pending = (options?.migrations ?? [])
+        .filter(({ version }) => version > this.persistedSnapshotVersion)
+        .sort((a, b) => a.version - b.version);
+      for (const { version, migrate } of pending) {
+        const migrated = migrate(JSON.parse(JSON.stringify(snapshot)));
+        operations.push(...compare(snapshot, migrated));
+        snapshot = migrated;
+        this.#log("debug", "Migrated persisted snapshot", { version });
+      }
+      return { snapshot: snapshot as SnapshotFrom<TMachine>, operations };
     }
   };
@@ -0,0 +1,40 @@
+import {
+  ActorIdentity,
+  ActorTypeFrom,
+  CallerSnapshotFromActorType,
+} from "./types";
+import { getActorStub } from "./utils";
+
+/**
+ * Reads another actor's snapshot from inside an actor. The snapshot is the
+ * one the target gives a system caller identifying the reading actor.
+ *
+ * @param env - The worker environment holding the target's Durable Object namespace.
+ * @param actorType - The kebab-case type of the target actor, e.g. "session".
+ * @param actorId - The id of the target actor.
+ * @param from - The type and id of the reading actor.
+ */
+export async function getActorSnapshot<
+  TEnv extends object,
+  // Intersected with string so the actor type is inferred as a literal
+  TActorType extends ActorTypeFrom<TEnv> & string
+>(
+  env: TEnv,
+  actorType: TActorType,
+  actorId: string,
+  from: ActorIdentity
+): Promise<{
+  checksum: string;
+  snapshot: CallerSnapshotFromActorType<TEnv, TActorType>;
+}> {
+  const stub = getActorStub(env, actorType, actorId);
+  const { checksum, snapshot } = await stub.getSnapshot({
+    type: "system",
+    id: from.actorId,
+    actorType: from.actorType,
+  });
+  return {
+    checksum,
+    snapshot: snapshot as CallerSnapshotFromActorType<TEnv, TActorType>,
+  };
+}
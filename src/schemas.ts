@@ -3,11 +3,13 @@ import { z } from "zod";
 export const BotManagementSchema = z.object({
   corporateProxy: z.boolean(),
   verifiedBot: z.boolean(),
-  jsDetection: z.object({
-    passed: z.boolean(),
-  }),
+  jsDetection: z
+    .object({
+      passed: z.boolean(),
+    })
+    .optional(),
   staticResource: z.boolean(),
-  detectionIds: z.record(z.any()),
+  detectionIds: z.array(z.number()),
   score: z.number(),
 });
 
@@ -16,23 +18,28 @@ export const EnvironmentSchema = z.object({
   ACTOR_KIT_HOST: z.string(),
 });
 
+// Cloudflare omits fields it can't determine (e.g. metroCode outside the US,
+// botManagement without Bot Management enabled), so all of them are optional.
 export const RequestInfoSchema = z.object({
-  longitude: z.string(),
-  latitude: z.string(),
-  continent: z.string(),
-  country: z.string(),
-  city: z.string(),
-  timezone: z.string(),
-  postalCode: z.string(),
-  region: z.string(),
-  regionCode: z.string(),
-  metroCode: z.string(),
-  botManagement: BotManagementSchema,
+  longitude: z.string().optional(),
+  latitude: z.string().optional(),
+  continent: z.string().optional(),
+  country: z.string().optional(),
+  city: z.string().optional(),
+  timezone: z.string().optional(),
+  postalCode: z.string().optional(),
+  region: z.string().optional(),
+  regionCode: z.string().optional(),
+  metroCode: z.string().optional(),
+  botManagement: BotManagementSchema.optional(),
 });
 
 export const CallerSchema = z.object({
   id: z.string(),
   type: z.enum(["client", "system", "service"]),
+  groups: z.array(z.string()).optional(),
+  /** For system callers, the type of the actor the event came from. */
+  actorType: z.string().optional(),
 });
 
 export const AnyEventSchema = z.object({
@@ -63,6 +70,18 @@ export const SystemEventSchema = z.discriminatedUnion("type", [
     caller: z.object({ type: z.literal("system"), id: z.string() }),
     operations: z.array(z.any()),
   }),
+  z.object({
+    type: z.literal("ACTOR_SNAPSHOT"),
+    caller: z.object({ type: z.literal("system"), id: z.string() }),
+    actorType: z.string(),
+    actorId: z.string(),
+    snapshot: z.record(z.unknown()),
+  }),
+  z.object({
+    type: z.literal("IDLE_TIMEOUT"),
+    caller: z.object({ type: z.literal("system"), id: z.string() }),
+    lastActivity: z.number(),
+  }),
 ]);
 
 export const CallerIdTypeSchema = z.enum(["client", "service", "system"]);
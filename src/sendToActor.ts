@@ -0,0 +1,40 @@
+import {
+  ActorEventFrom,
+  ActorIdentity,
+  ActorTypeFrom,
+  Caller,
+  MachineFromActorType,
+  SendResult,
+} from "./types";
+import { getActorStub } from "./utils";
+
+/**
+ * Sends an event from one actor to another. The target actor must already
+ * have been spawned, and receives the event with a system caller identifying
+ * the sending actor.
+ *
+ * @param env - The worker environment holding the target's Durable Object namespace.
+ * @param actorType - The kebab-case type of the target actor, e.g. "session".
+ * @param actorId - The id of the target actor.
+ * @param event - An event the target machine accepts from other actors.
+ * @param from - The type and id of the sending actor.
+ * @returns Whether the target actor accepted the event.
+ */
+export async function sendToActor<
+  TEnv extends object,
+  TActorType extends ActorTypeFrom<TEnv>
+>(
+  env: TEnv,
+  actorType: TActorType,
+  actorId: string,
+  event: ActorEventFrom<MachineFromActorType<TEnv, TActorType>>,
+  from: ActorIdentity
+): Promise<SendResult> {
+  const caller: Caller = {
+    type: "system",
+    id: from.actorId,
+    actorType: from.actorType,
+  };
+  const stub = getActorStub(env, actorType as string, actorId);
+  return stub.send({ ...event, caller });
+}
@@ -0,0 +1,48 @@
+import { ActorIdentity, ActorTypeFrom } from "./types";
+import { getActorStub } from "./utils";
+
+/**
+ * Subscribes one actor to another actor's snapshot. The subscribing actor
+ * receives an `ACTOR_SNAPSHOT` system event with the target's current
+ * snapshot right away and again whenever it changes, until it unsubscribes
+ * with `unsubscribeFromActor`. Subscriptions are stored by the target and
+ * survive restarts of either actor.
+ *
+ * @param env - The worker environment holding both actors' Durable Object namespaces.
+ * @param actorType - The kebab-case type of the target actor, e.g. "session".
+ * @param actorId - The id of the target actor.
+ * @param from - The type and id of the subscribing actor.
+ */
+export async function subscribeToActor<
+  TEnv extends object,
+  TActorType extends ActorTypeFrom<TEnv>
+>(
+  env: TEnv,
+  actorType: TActorType,
+  actorId: string,
+  from: ActorIdentity
+): Promise<void> {
+  const stub = getActorStub(env, actorType as string, actorId);
+  await stub.addSubscriber(from);
+}
+
+/**
+ * Stops the `ACTOR_SNAPSHOT` events started by `subscribeToActor`.
+ *
+ * @param env - The worker environment holding the target's Durable Object namespace.
+ * @param actorType - The kebab-case type of the target actor.
+ * @param actorId - The id of the target actor.
+ * @param from - The type and id of the subscribing actor.
+ */
+export async function unsubscribeFromActor<
+  TEnv extends object,
+  TActorType extends ActorTypeFrom<TEnv>
+>(
+  env: TEnv,
+  actorType: TActorType,
+  actorId: string,
+  from: ActorIdentity
+): Promise<void> {
+  const stub = getActorStub(env, actorType as string, actorId);
+  await stub.removeSubscriber(from);
+}
@@ -17,37 +17,89 @@ import type {
 
 export type EnvWithDurableObjects = {
   ACTOR_KIT_SECRET: string;
-  [key: string]: DurableObjectNamespace<ActorServer<any>> | unknown;
+  [key: string]: DurableObjectNamespace<ActorServer<any, any>> | unknown;
 };
 
 export type AnyEvent = z.infer<typeof AnyEventSchema>;
 
-export interface ActorServerMethods<TMachine extends BaseActorKitStateMachine> {
+export interface ActorServerMethods<
+  TMachine extends BaseActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> {
   fetch(request: Request): Promise<Response>;
   spawn(props: {
     actorType: string;
     actorId: string;
     caller: Caller;
     input: Record<string, unknown>;
-  }): void;
-  send(event: ClientEventFrom<TMachine> | ServiceEventFrom<TMachine>): void;
+  }): Promise<SpawnResult>;
+  send(event: CallerEventFrom<TMachine>): SendResult;
   getSnapshot(
     caller: Caller,
     options?: {
-      waitForEvent?: ClientEventFrom<TMachine>;
+      waitForEvent?: EventMatcherFrom<TMachine>;
       waitForState?: StateValueFrom<TMachine>;
+      /**
+       * Earliest time, in milliseconds since the epoch, at which an event
+       * handled before the request matches `waitForEvent`. Defaults to two
+       * seconds before the request.
+       */
+      since?: number;
       timeout?: number;
       errorOnWaitTimeout?: boolean;
     }
   ): Promise<{
     checksum: string;
-    snapshot: CallerSnapshotFrom<TMachine>;
+    snapshot: CallerSnapshotFrom<TMachine, TCallerSnapshot>;
   }>;
+  getEventLog(options?: {
+    from?: number;
+    limit?: number;
+  }): Promise<EventLogEntry[]>;
+  replayEvents(options?: { toIndex?: number }): Promise<{
+    snapshot: SnapshotFrom<TMachine>;
+    checksum: string;
+    divergedAt?: number;
+  }>;
+  destroy(reason?: string): Promise<void>;
+  reset(input?: Record<string, unknown>): Promise<SpawnResult>;
+  addSubscriber(subscriber: ActorIdentity): Promise<void>;
+  removeSubscriber(subscriber: ActorIdentity): Promise<void>;
+  receiveActorUpdate(
+    publisher: ActorIdentity,
+    message: ActorSnapshotUpdate
+  ): Promise<void>;
 }
 
-export type ActorServer<TMachine extends AnyActorKitStateMachine> =
-  DurableObject & ActorServerMethods<TMachine>;
-export type AnyActorServer = ActorServer<any>;
+export type SpawnResult =
+  { success: true } | { success: false; issues: z.ZodIssue[] };
+
+/**
+ * Identifies an actor-kit actor, e.g. the sender of an actor-to-actor event.
+ */
+export type ActorIdentity = {
+  actorType: string;
+  actorId: string;
+};
+
+/**
+ * A snapshot update sent to a subscribed actor, holding whatever snapshot
+ * the publishing actor sends its callers.
+ */
+export type ActorSnapshotUpdate = Extract<
+  ActorKitEmittedEvent<AnyActorKitStateMachine, Record<string, unknown>>,
+  { type: "patch" | "snapshot" }
+>;
+
+export type SendResult =
+  | { success: true }
+  | { success: false; code: ActorKitErrorCode; message: string };
+
+export type ActorServer<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> = DurableObject & ActorServerMethods<TMachine, TCallerSnapshot>;
+export type AnyActorServer = ActorServer<any, any>;
 
 export type Caller = z.infer<typeof CallerSchema>;
 export type RequestInfo = z.infer<typeof RequestInfoSchema>;
@@ -152,8 +204,203 @@ export type BaseActorKitStateMachine = ActorKitStateMachine<
   AnyActorKitContext
 >;
 
-export type MachineServerOptions = {
+export type MachineServerOptions<
+  TMachine extends AnyActorKitStateMachine = AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> = {
   persisted?: boolean;
+  /**
+   * Tunes how persisted actors write their snapshots. Changes are stored as
+   * JSON patches on top of a base snapshot, which is rewritten (and split
+   * across several keys when large) once enough patches have piled up.
+   */
+  persistence?: {
+    /**
+     * Milliseconds to wait for further changes before writing, coalescing
+     * bursts of transitions into one write. Changes still waiting when the
+     * Durable Object is evicted are lost. Defaults to 0.
+     */
+    debounceMs?: number;
+    /** Number of patches to store before compacting them. Defaults to 20. */
+    compactAfterPatches?: number;
+    /**
+     * Maximum characters stored per key, measured after encryption when
+     * `encryption` is set. Defaults to 60000.
+     */
+    maxChunkSize?: number;
+  };
+  /**
+   * Migrations for persisted snapshots, for changes `xstate-migrate` can't
+   * infer such as renamed context fields. Snapshots are stored with the
+   * highest migration version, and migrations with a higher version than a
+   * restored snapshot's run on it in version order before the actor starts.
+   * The machine then receives a `MIGRATE` event with the operations applied.
+   */
+  migrations?: SnapshotMigration[];
+  /**
+   * What to do when a restored snapshot fails the `publicContext` or
+   * `privateContext` schemas. `"quarantine"` moves it to a backup key and
+   * starts the actor fresh. `"refuse"` keeps the actor from starting, so
+   * requests fail with the validation error until it is reset or destroyed.
+   * Defaults to `"refuse"`.
+   */
+  invalidSnapshot?: "quarantine" | "refuse";
+  /**
+   * Encrypts the persisted snapshot, input, initial caller, delayed events
+   * and event log in storage with AES-GCM. Values are written with the key
+   * `currentKeyId` and read with the key they were written with, so keys can
+   * be rotated by adding a new key and keeping the old ones until the data
+   * using them has been rewritten. Plaintext values are still read.
+   */
+  encryption?: {
+    currentKeyId: string;
+    /** Returns base64-encoded AES keys by id, usually from env secrets. */
+    keys: (env: EnvFromMachine<TMachine>) => Record<string, string>;
+  };
+  /** Receives the server's logs. Defaults to `createLogger()`. */
+  logger?: Logger;
+  /**
+   * Milliseconds to wait after a caller's last WebSocket closes before sending
+   * DISCONNECT. Reconnecting within this window sends neither DISCONNECT nor
+   * CONNECT. The pending DISCONNECT is delivered by an alarm, so it survives
+   * hibernation and eviction. Defaults to 5000.
+   */
+  disconnectGracePeriod?: number;
+  /**
+   * Appends every event the actor handles to an event log in storage, which
+   * can be read with `getEventLog` and replayed with `replayEvents`.
+   */
+  eventLog?: boolean;
+  /**
+   * Token-bucket limits on how fast callers can send events, per caller type.
+   * Each caller id gets its own bucket. Buckets are kept in memory and start
+   * full again when the Durable Object is evicted.
+   */
+  rateLimit?: Partial<Record<"client" | "service", RateLimit>>;
+  /** Maximum size in bytes of a single client or service event. */
+  maxEventSize?: number;
+  /**
+   * Number of consecutive rate-limited or oversized events after which a
+   * WebSocket is closed. Defaults to 10.
+   */
+  maxViolations?: number;
+  /**
+   * Milliseconds after the machine reaches a final state to destroy the
+   * actor, deleting its stored data. By default finished actors are kept.
+   */
+  destroyAfterDone?: number;
+  /**
+   * Milliseconds without events or connections after which the actor is
+   * destroyed, deleting its stored data. The machine is first sent an
+   * `IDLE_TIMEOUT` system event and keeps the actor alive by handling it.
+   * By default idle actors are kept.
+   */
+  idleTimeout?: number;
+  /**
+   * Resolves the groups a caller belongs to from the actor's state, in
+   * addition to any `groups` claim in the caller's access token. Callers
+   * receive the `context.groups` buckets of every group they belong to.
+   */
+  getCallerGroups?: (
+    snapshot: SnapshotFrom<TMachine>,
+    caller: Caller
+  ) => string[];
+  /**
+   * Projects the actor's full snapshot into the snapshot a caller receives,
+   * replacing the default `{ public, private, value }` split. The caller has
+   * its resolved `groups`. It must be deterministic and return
+   * JSON-serializable data, since clients are sent patches between
+   * successive projections and verify checksums of the result. Its return
+   * type becomes the server's `TCallerSnapshot`.
+   */
+  toCallerSnapshot?: (
+    snapshot: SnapshotFrom<TMachine>,
+    caller: Caller
+  ) => CallerSnapshotFrom<TMachine, TCallerSnapshot>;
+  /**
+   * What to do when the machine stops with an error, for example because an
+   * action threw. Connected clients are sent an `ACTOR_ERROR` error either
+   * way. Defaults to `"halt"`.
+   */
+  restartPolicy?: RestartPolicy;
+  /**
+   * Called with the error that stopped the machine, before the restart
+   * policy is applied.
+   */
+  onError?: (
+    error: unknown,
+    info: { actorType: string; actorId: string; restartPolicy: RestartPolicy }
+  ) => void;
+};
+
+/**
+ * How an actor recovers after its machine stops with an error:
+ * - `"lastPersisted"` restores the last persisted snapshot and sends
+ *   `RESUME`. Delayed events the failed actor scheduled are still delivered. Without the `persisted` option it behaves like `"initial"`.
+ * - `"initial"` restarts from the initial state. Unlike `reset()`, the
+ *   event log and any scheduled destruction are kept.
+ * - `"halt"` keeps the actor stopped, rejecting events with `ACTOR_ERROR`
+ *   until it is reset or destroyed.
+ *
+ * An actor that fails again before handling any event after a restart is
+ * halted, so a failure on startup can't restart it in a loop.
+ */
+export type RestartPolicy = "lastPersisted" | "initial" | "halt";
+
+/**
+ * Upgrades persisted snapshots to a schema version. `migrate` receives a
+ * copy of the snapshot in XState's persisted snapshot format and returns
+ * the migrated snapshot.
+ */
+export type SnapshotMigration = {
+  version: number;
+  migrate: (snapshot: Record<string, any>) => Record<string, any>;
+};
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured data attached to a log entry. `actorType`, `actorId`,
+ * `callerId` and `eventType` are set wherever they apply.
+ */
+export type LogFields = {
+  actorType?: string;
+  actorId?: string;
+  callerId?: string;
+  eventType?: string;
+  [key: string]: unknown;
+};
+
+export type LogEntry = LogFields & {
+  level: LogLevel;
+  message: string;
+  timestamp: string;
+};
+
+/**
+ * Receives logs from the machine server, router and client. Use
+ * `createLogger` for console output, or forward entries to a logging
+ * service with your own implementation.
+ */
+export type Logger = Record<
+  LogLevel,
+  (message: string, fields?: LogFields) => void
+>;
+
+export type RateLimit = {
+  /** Maximum number of events a caller can send in a burst. */
+  capacity: number;
+  /** Number of events added back to the bucket per second. */
+  refillPerSecond: number;
+};
+
+export type EventLogEntry = {
+  index: number;
+  type: string;
+  payload: Record<string, unknown>;
+  caller: Caller;
+  timestamp: number;
+  checksum: string;
 };
 
 export type ExtraContext = {
@@ -182,19 +429,36 @@ export type WithActorKitContext<
 > = TExtraProps & {
   public: TPublicProps;
   private: Record<string, TPrivateProps>;
+  /**
+   * Private state shared by every member of a group, keyed by group name.
+   * A caller's private snapshot is its groups' buckets merged in order, with
+   * its own `private` entry on top.
+   */
+  groups?: Record<string, Partial<TPrivateProps>>;
 };
 
-export type CallerSnapshotFrom<TMachine extends AnyStateMachine> = {
-  public: SnapshotFrom<TMachine> extends { context: { public: infer P } }
-    ? P
-    : unknown;
-  private: SnapshotFrom<TMachine> extends {
-    context: { private: Partial<Record<string, infer PR>> };
-  }
-    ? PR
-    : unknown;
-  value: SnapshotFrom<TMachine> extends { value: infer V } ? V : unknown;
-};
+/**
+ * The snapshot a caller receives. By default it's the public context, the
+ * caller's private context and the state value. Actors with a
+ * `toCallerSnapshot` projection send whatever it returns instead, so pass
+ * its return type as `TCallerSnapshot`.
+ */
+export type CallerSnapshotFrom<
+  TMachine extends AnyStateMachine,
+  TCallerSnapshot extends object = never
+> = [TCallerSnapshot] extends [never]
+  ? {
+      public: SnapshotFrom<TMachine> extends { context: { public: infer P } }
+        ? P
+        : unknown;
+      private: SnapshotFrom<TMachine> extends {
+        context: { private: Partial<Record<string, infer PR>> };
+      }
+        ? PR
+        : unknown;
+      value: SnapshotFrom<TMachine> extends { value: infer V } ? V : unknown;
+    }
+  : TCallerSnapshot;
 
 export type ClientEventFrom<T extends AnyActorKitStateMachine> =
   T extends StateMachine<
@@ -240,14 +504,126 @@ export type ServiceEventFrom<T extends AnyActorKitStateMachine> =
       : never
     : never;
 
+/**
+ * Events a machine accepts from other actors, declared with
+ * `WithActorKitEvent<TEvent, "system">`. They are sent with `sendToActor` and
+ * arrive with a system caller identifying the sending actor.
+ */
+export type ActorEventFrom<T extends AnyActorKitStateMachine> =
+  T extends StateMachine<
+    any,
+    infer TEvent,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any
+  >
+    ? TEvent extends WithActorKitEvent<infer E, "system">
+      ? E extends { type: ActorKitSystemEvent["type"] }
+        ? never
+        : Omit<E, keyof BaseActorKitEvent<EnvWithDurableObjects>>
+      : never
+    : never;
+
+/**
+ * Every event a machine accepts from clients, services and other actors.
+ */
+export type CallerEventFrom<T extends AnyActorKitStateMachine> =
+  | ClientEventFrom<T>
+  | ServiceEventFrom<T>
+  | ActorEventFrom<T>;
+
+/**
+ * A partial event used to wait for an event to be handled by an actor.
+ * `type` is required; any other field given must deep-equal the handled
+ * event's value. `caller` optionally restricts matches to a specific caller.
+ */
+export type EventMatcherFrom<T extends AnyActorKitStateMachine> =
+  CallerEventFrom<T> extends infer E
+    ? E extends { type: string }
+      ? Pick<E, "type"> &
+          Partial<Omit<E, "type">> & { caller?: Partial<Caller> }
+      : never
+    : never;
+
+/**
+ * Authorization policies keyed by event type. Each predicate is checked
+ * before the event is sent to the actor; events it returns false for, or
+ * throws on, are rejected with a `FORBIDDEN` error.
+ */
+export type EventPoliciesFrom<T extends AnyActorKitStateMachine> = {
+  [E in CallerEventFrom<T> as E["type"]]?: (args: {
+    caller: Caller;
+    snapshot: SnapshotFrom<T>;
+    event: E & { caller: Caller; requestInfo?: RequestInfo };
+  }) => boolean;
+};
+
 // Helper type to convert from SCREAMING_SNAKE_CASE to kebab-case
 export type ScreamingSnakeToKebab<S extends string> =
   S extends `${infer T}_${infer U}`
     ? `${Lowercase<T>}-${ScreamingSnakeToKebab<U>}`
     : Lowercase<S>;
 
-export type DurableObjectActor<TMachine extends AnyActorKitStateMachine> =
-  ActorServer<TMachine>;
+export type DurableObjectActor<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> = ActorServer<TMachine, TCallerSnapshot>;
+
+/**
+ * The kebab-case actor types whose Durable Object namespaces are in `TEnv`.
+ */
+export type ActorTypeFrom<TEnv> = {
+  // Skips the index signature of EnvWithDurableObjects
+  [K in keyof TEnv as K extends string
+    ? string extends K
+      ? never
+      : K
+    : never]: K extends string
+    ? TEnv[K] extends DurableObjectNamespace<
+        ActorServer<infer _TMachine, any>
+      >
+      ? ScreamingSnakeToKebab<K>
+      : never
+    : never;
+} extends infer TActorTypes
+  ? TActorTypes[keyof TActorTypes]
+  : never;
+
+/**
+ * The machine hosted by the Durable Object namespace for `TActorType`.
+ */
+export type MachineFromActorType<
+  TEnv,
+  TActorType extends string
+> = TEnv[KebabToScreamingSnake<TActorType> &
+  keyof TEnv] extends DurableObjectNamespace<ActorServer<infer TMachine, any>>
+  ? TMachine
+  : never;
+
+/**
+ * The snapshot the actor for `TActorType` sends callers, including the
+ * return type of its `toCallerSnapshot` projection if it has one.
+ */
+export type CallerSnapshotFromActorType<
+  TEnv,
+  TActorType extends string
+> = TEnv[KebabToScreamingSnake<TActorType> &
+  keyof TEnv] extends DurableObjectNamespace<infer TServer>
+  ? TServer extends {
+      getSnapshot(...args: any[]): Promise<{ snapshot: infer TSnapshot }>;
+    }
+    ? TSnapshot
+    : never
+  : never;
 
 type CamelToSnakeCase<S extends string> = S extends `${infer T}${infer U}`
   ? U extends Uncapitalize<U>
@@ -270,27 +646,87 @@ export interface MatchesProps<TMachine extends AnyActorKitStateMachine> {
   initialValueOverride?: boolean;
 }
 
-export type MachineFromServer<T> = T extends ActorServer<infer M> ? M : never;
+export type MachineFromServer<T> = T extends ActorServer<infer M, any>
+  ? M
+  : never;
 
-export type ActorKitEmittedEvent = {
-  operations: Operation[];
+/**
+ * Outcome of an event handled by an actor. `transitioned` is false when no
+ * transition handles the event or its guards blocked it. A transition with
+ * only a guard counts once the guard passes. `checksum` is the
+ * checksum of the actor's snapshot after handling the event.
+ */
+export type ActorKitEventResult = {
   checksum: string;
+  transitioned: boolean;
 };
-// | {
-//     snapshot: CallerSnapshotFrom<TMachine>;
-//     checksum: string;
-//   };
 
-export type ActorKitClient<TMachine extends AnyActorKitStateMachine> = {
+export type ActorKitErrorCode =
+  | "INVALID_MESSAGE"
+  | "INVALID_EVENT"
+  | "RATE_LIMITED"
+  | "EVENT_TOO_LARGE"
+  | "FORBIDDEN"
+  | "ACTOR_ERROR"
+  | "NOT_SPAWNED";
+
+/**
+ * Messages sent from an actor to its WebSocket clients. `patch` updates the
+ * client's snapshot in place, `snapshot` replaces it entirely and is sent
+ * whenever the server has no valid base to diff against. `callerChecksum` is
+ * the checksum of the caller snapshot the client should end up with.
+ * `ack` and `error` answer events sent with an id: `ack` when the actor
+ * handled the event, `error` (the nack) when it was rejected. `error` is also
+ * sent for rejected events without an id. `done` is sent once the machine has
+ * reached a final state.
+ */
+export type ActorKitEmittedEvent<
+  TMachine extends AnyActorKitStateMachine = AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> =
+  | {
+      type: "patch";
+      operations: Operation[];
+      checksum: string;
+      callerChecksum: string;
+    }
+  | {
+      type: "snapshot";
+      snapshot: CallerSnapshotFrom<TMachine, TCallerSnapshot>;
+      checksum: string;
+      callerChecksum: string;
+    }
+  | ({
+      type: "ack";
+      id: string;
+    } & ActorKitEventResult)
+  | {
+      type: "error";
+      id?: string;
+      code: ActorKitErrorCode;
+      message: string;
+      eventType?: string;
+      issues?: z.ZodIssue[];
+    }
+  | {
+      type: "done";
+    };
+
+export type ActorKitClient<
+  TMachine extends AnyActorKitStateMachine,
+  TCallerSnapshot extends object = never
+> = {
   connect: () => Promise<void>;
   disconnect: () => void;
-  send: (event: ClientEventFrom<TMachine>) => void;
-  getState: () => CallerSnapshotFrom<TMachine>;
+  send: (event: ClientEventFrom<TMachine>) => Promise<ActorKitEventResult>;
+  getState: () => CallerSnapshotFrom<TMachine, TCallerSnapshot>;
   subscribe: (
-    listener: (state: CallerSnapshotFrom<TMachine>) => void
+    listener: (state: CallerSnapshotFrom<TMachine, TCallerSnapshot>) => void
   ) => () => void;
   waitFor: (
-    predicateFn: (state: CallerSnapshotFrom<TMachine>) => boolean,
+    predicateFn: (
+      state: CallerSnapshotFrom<TMachine, TCallerSnapshot>
+    ) => boolean,
     timeoutMs?: number
   ) => Promise<void>;
 };
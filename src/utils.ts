@@ -1,69 +1,16 @@
 import { jwtVerify, SignJWT } from "jose";
-import { PERSISTED_SNAPSHOT_KEY } from "./constants";
-import { CallerStringSchema } from "./schemas";
-import { Caller } from "./types";
-
-// Define log levels
-export enum LogLevel {
-  ERROR = 0,
-  WARN = 1,
-  INFO = 2,
-  DEBUG = 3,
-}
-
-// Declare a global variable to control debug level
-declare global {
-  var DEBUG_LEVEL: LogLevel | undefined;
-}
-
-// Set the current log level based on the global DEBUG_LEVEL variable
-// Default to INFO if not set
-const getCurrentLogLevel = (): LogLevel => {
-  return globalThis.DEBUG_LEVEL !== undefined
-    ? globalThis.DEBUG_LEVEL
-    : LogLevel.INFO;
-};
-
-/**
- * Debug logging function
- * @param message The message to log
- * @param level The log level (default: DEBUG)
- * @param data Additional data to log (optional)
- */
-export function debug(
-  message: string,
-  level: LogLevel = LogLevel.DEBUG,
-  data?: any
-) {
-  const currentLogLevel = getCurrentLogLevel();
-  if (level <= currentLogLevel) {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] ${LogLevel[level]}: ${message}`;
-
-    if (data) {
-      console.log(logMessage, data);
-    } else {
-      console.log(logMessage);
-    }
-
-    // You can extend this to send logs to a service if needed
-    // For example:
-    // if (typeof fetch !== 'undefined') {
-    //   fetch('https://your-logging-service.com', {
-    //     method: 'POST',
-    //     body: JSON.stringify({ message: logMessage, level, data }),
-    //   });
-    // }
-  }
-}
+import { ENCRYPTED_VALUE_PREFIX, PERSISTED_SNAPSHOT_KEY } from "./constants";
+import { createLogger } from "./createLogger";
+import { z } from "zod";
+import { CallerStringSchema, RequestInfoSchema } from "./schemas";
+import {
+  ActorServer,
+  AnyActorKitStateMachine,
+  Caller,
+  RequestInfo,
+} from "./types";
 
-// Convenience methods for different log levels
-export const logError = (message: string, data?: any) =>
-  debug(message, LogLevel.ERROR, data);
-export const logWarn = (message: string, data?: any) =>
-  debug(message, LogLevel.WARN, data);
-export const logInfo = (message: string, data?: any) =>
-  debug(message, LogLevel.INFO, data);
+const defaultLogger = createLogger();
 
 export const json = <T>(data: T, status = 200) =>
   Response.json(data, { status });
@@ -71,7 +18,7 @@ export const json = <T>(data: T, status = 200) =>
 export const ok = () => json({ ok: true });
 
 export const error = (err: string | { message: string }, status = 500) => {
-  console.error("Error response", err);
+  defaultLogger.error("Error response", { error: err });
   return json(
     {
       ok: false,
@@ -111,6 +58,107 @@ export function assert<T>(
   }
 }
 
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+/**
+ * Imports a base64-encoded 128, 192 or 256-bit key for AES-GCM.
+ */
+export function importEncryptionKey(base64Key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    fromBase64(base64Key),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Encrypts a string with AES-GCM and a random IV. The result records the key
+ * id, so it can still be decrypted after the current key changes.
+ */
+export async function encryptValue(
+  value: string,
+  keyId: string,
+  key: CryptoKey
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(value)
+  );
+  return `${ENCRYPTED_VALUE_PREFIX}${keyId}:${toBase64(iv)}:${toBase64(
+    new Uint8Array(ciphertext)
+  )}`;
+}
+
+/**
+ * Decrypts a string produced by `encryptValue` with the key it was encrypted
+ * with. Values without the encryption prefix are returned unchanged.
+ * @throws If the key id is unknown or the value fails authentication.
+ */
+export async function decryptValue(
+  value: string,
+  keys: Map<string, CryptoKey>
+): Promise<string> {
+  if (!value.startsWith(ENCRYPTED_VALUE_PREFIX)) {
+    return value;
+  }
+  const [ciphertext, iv, ...keyIdParts] = value
+    .slice(ENCRYPTED_VALUE_PREFIX.length)
+    .split(":")
+    .reverse();
+  const keyId = keyIdParts.reverse().join(":");
+  const key = keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown encryption key id: ${keyId}`);
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Checks whether `value` contains everything in `pattern`. Objects match when
+ * every key in the pattern matches, arrays and primitives must be equal.
+ */
+export function matchesPartial(value: unknown, pattern: unknown): boolean {
+  if (value === pattern) {
+    return true;
+  }
+  if (
+    typeof value !== "object" ||
+    typeof pattern !== "object" ||
+    value === null ||
+    pattern === null
+  ) {
+    return false;
+  }
+  if (Array.isArray(pattern)) {
+    return (
+      Array.isArray(value) &&
+      value.length === pattern.length &&
+      pattern.every((item, index) => matchesPartial(value[index], item))
+    );
+  }
+  return Object.entries(pattern).every(([key, expected]) =>
+    matchesPartial((value as Record<string, unknown>)[key], expected)
+  );
+}
+
 export async function getCallerFromRequest(
   request: Request,
   actorType: string,
@@ -167,5 +215,55 @@ export async function parseAccessTokenForCaller({
   if (!verified.payload.sub) {
     throw new Error("Expected accessToken to have subject");
   }
-  return CallerStringSchema.parse(verified.payload.sub);
+  const caller = CallerStringSchema.parse(verified.payload.sub);
+  const groups = z.array(z.string()).optional().parse(verified.payload.groups);
+  return groups ? { ...caller, groups } : caller;
+}
+
+/**
+ * Extracts request metadata (geo, timezone, bot management) from the
+ * Cloudflare `request.cf` object.
+ * @returns The validated request info, or undefined if `cf` is missing or malformed.
+ */
+export function getRequestInfo(request: Request): RequestInfo | undefined {
+  const cf = (request as { cf?: IncomingRequestCfProperties }).cf;
+  if (!cf) {
+    return undefined;
+  }
+
+  const result = RequestInfoSchema.safeParse({
+    longitude: cf.longitude,
+    latitude: cf.latitude,
+    continent: cf.continent,
+    country: cf.country,
+    city: cf.city,
+    timezone: cf.timezone,
+    postalCode: cf.postalCode,
+    region: cf.region,
+    regionCode: cf.regionCode,
+    metroCode: cf.metroCode,
+    botManagement: cf.botManagement,
+  });
+  return result.success ? result.data : undefined;
+}
+
+/**
+ * Looks up the Durable Object stub of an actor from the Worker environment.
+ * @param actorType - The kebab-case actor type, e.g. "session-list" for the `SESSION_LIST` binding.
+ * @throws If `env` has no Durable Object namespace for the actor type.
+ */
+export function getActorStub(
+  env: object,
+  actorType: string,
+  actorId: string
+): DurableObjectStub<ActorServer<AnyActorKitStateMachine>> {
+  const envKey = actorType.toUpperCase().replace(/-/g, "_");
+  const namespace = (env as Record<string, unknown>)[envKey] as
+    DurableObjectNamespace<ActorServer<AnyActorKitStateMachine>> | undefined;
+  if (!namespace) {
+    throw new Error(
+      `Durable Object namespace not found for actor type: ${actorType}`
+    );
+  }
+  return namespace.get(namespace.idFromName(actorId));
 }
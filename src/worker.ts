@@ -1,2 +1,6 @@
 export { createActorKitRouter } from "./createActorKitRouter";
-export { createMachineServer } from "./createMachineServer";
\ No newline at end of file
+export { createLogger } from "./createLogger";
+export { createMachineServer } from "./createMachineServer";
+export { getActorSnapshot } from "./getActorSnapshot";
+export { sendToActor } from "./sendToActor";
+export { subscribeToActor, unsubscribeFromActor } from "./subscribeToActor";
\ No newline at end of file